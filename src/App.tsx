@@ -3,20 +3,51 @@ import 'leaflet/dist/leaflet.css'
 
 import React, { useState, useCallback, useRef, useEffect } from 'react'
 import { MapContainer, TileLayer, Marker, Popup, Polyline, useMapEvents } from 'react-leaflet'
-import { LatLng, Icon } from 'leaflet'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { LatLng, Icon, DivIcon } from 'leaflet'
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card'
 import { Button } from './components/ui/button'
 import { Input } from './components/ui/input'
 import { Label } from './components/ui/label'
 import { Separator } from './components/ui/separator'
-import { Badge } from './components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './components/ui/select'
 import { Progress } from './components/ui/progress'
-import { Trash2, Download, Upload, RotateCcw, MapPin, Clock, Ruler, Mountain } from 'lucide-react'
+import { Trash2, Download, Upload, RotateCcw, MapPin, Clock, Ruler, Mountain, Share2, Pin, PinOff } from 'lucide-react'
 import { TrajectoryPlotter } from './components/TrajectoryPlotter'
 import { ElevationServiceStatus } from './components/ElevationServiceStatus'
+import { LocalDemSources } from './components/LocalDemSources'
+import { CsvImportDialog } from './components/CsvImportDialog'
+import { RecordedTracks } from './components/RecordedTracks'
+import { WaypointList } from './components/WaypointList'
+import { RouteHistory } from './components/RouteHistory'
+import { SavedRoutes } from './components/SavedRoutes'
+import { RouteTiming } from './components/RouteTiming'
+import { savedRoutes } from './services/savedRoutes'
+import type { MapView, SavedRoute } from './services/savedRoutes'
+import { createShareUrl, hasSharedRoute, parseSharedRoute } from './services/shareLinks'
 import { toast, Toaster } from 'sonner'
-import { altitudeService } from './services/altitudeService'
+import { AltitudeProvenance } from './components/AltitudeProvenance'
+import { altitudeService, describeProvenance } from './services/altitudeService'
+import { defaultWaypointName, insertRoutePoint, nearestSegment, renumberWaypoints } from './services/routeEditing'
+import { DEFAULT_TIMING_SETTINGS, nextTimestamp } from './services/routeTiming'
+import type { TimingSettings } from './services/routeTiming'
+import {
+  EXPORT_FORMATS,
+  IMPORT_ACCEPT,
+  KML_ALTITUDE_MODES,
+  MISSION_ALTITUDE_FRAMES,
+  MISSION_COMMANDS,
+  TRAJECTORY_FORMAT_VERSION,
+  downloadTrajectory,
+  importTrajectoryFile,
+  isCsvFile
+} from './services/trajectoryFiles'
+import type { CsvImportResult } from './services/formats/csv'
+import type { KmlAltitudeMode, MissionAltitudeFrame } from './services/trajectoryFiles'
+import type { MissionCommand, RecordedTrack, RoutePoint, TrajectoryData } from './types/trajectory'
+import { useElevationProviders } from './hooks/use-elevation-providers'
+import { useRouteHistory } from './hooks/use-route-history'
+import { listNames, plural } from './services/formats/common'
 import { Moon, Sun, Activity } from 'lucide-react'
 
 // Fix for default markers in react-leaflet - use a more robust approach
@@ -33,25 +64,54 @@ const fixLeafletIcons = () => {
   }
 }
 
-interface RoutePoint {
-  id: string
-  lat: number
-  lng: number
-  altitude: number
-  timestamp: number
-  name: string
-}
-
-interface TrajectoryData {
-  points: RoutePoint[]
-  totalDistance: number
-  totalTime: number
-  createdAt: string
-}
+// Handle drawn halfway along each route segment; clicking or dragging it inserts a waypoint
+const midpointIcon = new DivIcon({
+  className: '',
+  html: '<div class="w-3 h-3 rounded-full border-2 border-white bg-blue-500/70 shadow"></div>',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6]
+})
 
 // Toulouse coordinates
 const TOULOUSE_CENTER: [number, number] = [43.6047, 1.4442]
 
+const DEFAULT_MAP_VIEW: MapView = { lat: TOULOUSE_CENTER[0], lng: TOULOUSE_CENTER[1], zoom: 12 }
+
+// Delay after the last edit before the route is written to IndexedDB
+const AUTOSAVE_DELAY_MS = 500
+
+// Remembers where the map was left so the next session opens there
+function MapViewTracker() {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter()
+      savedRoutes.saveSession({ mapView: { lat: center.lat, lng: center.lng, zoom: map.getZoom() } }).catch(error => {
+        console.warn('Failed to save map view:', error)
+      })
+    }
+  })
+  return null
+}
+
+// Whether a route point is still the same point at the same position
+const isAtPosition = (a: RoutePoint, b: RoutePoint) =>
+  a.id === b.id && a.lat === b.lat && a.lng === b.lng
+
+// Apply a change to the matching points, keeping the same array when nothing matches
+// so no-op updates (e.g. elevation for a point that was since moved) leave no history
+const updateMatching = (points: RoutePoint[], matches: (point: RoutePoint) => boolean, change: (point: RoutePoint) => RoutePoint) =>
+  points.some(matches) ? points.map(point => matches(point) ? change(point) : point) : points
+
+// History labels for edits from the waypoint editor, by the first changed field
+const FIELD_EDIT_LABELS: Record<string, string> = {
+  name: 'Rename',
+  altitude: 'Set altitude of',
+  timestamp: 'Set time of',
+  missionCommand: 'Set command of',
+  holdTime: 'Set hold time of',
+  legSpeed: 'Set leg speed of'
+}
+
 function MapClickHandler({ onMapClick }: { onMapClick: (latlng: LatLng) => void }) {
   useMapEvents({
     click: (e) => {
@@ -73,8 +133,15 @@ function MapClickHandler({ onMapClick }: { onMapClick: (latlng: LatLng) => void
 }
 
 function App() {
-  const [routePoints, setRoutePoints] = useState<RoutePoint[]>([])
-  const [selectedPoint, setSelectedPoint] = useState<RoutePoint | null>(null)
+  const routeHistory = useRouteHistory()
+  const { points: routePoints, apply: applyRouteEdit, applyFollowUp, undo, redo } = routeHistory
+  const [recordedTracks, setRecordedTracks] = useState<RecordedTrack[]>([])
+  const [selectedPointId, setSelectedPointId] = useState<string | null>(null)
+  const [activeRouteId, setActiveRouteId] = useState<string | null>(null)
+  const { routeId } = useParams()
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const [initialMapView, setInitialMapView] = useState<MapView | null>(null)
   const [isGenerating, setIsGenerating] = useState(false)
   const [isFetchingElevation, setIsFetchingElevation] = useState(false)
   const [elevationStatus, setElevationStatus] = useState<string>('')
@@ -84,7 +151,160 @@ function App() {
   const [elevationDataSource, setElevationDataSource] = useState<string>('auto')
   const [elevationProgress, setElevationProgress] = useState(0)
   const [autoFetchElevation, setAutoFetchElevation] = useState(true)
+  const [timingSettings, setTimingSettings] = useState<TimingSettings>(DEFAULT_TIMING_SETTINGS)
+  const [exportFormat, setExportFormat] = useState(EXPORT_FORMATS[0].id)
+  const [kmlAltitudeMode, setKmlAltitudeMode] = useState<KmlAltitudeMode>('absolute')
+  const [missionFrame, setMissionFrame] = useState<MissionAltitudeFrame>('relative')
+  const [csvImportFile, setCsvImportFile] = useState<File | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Latest unsaved route state, written after AUTOSAVE_DELAY_MS or when switching routes
+  const pendingSaveRef = useRef<{ id: string, points: RoutePoint[] } | null>(null)
+  const elevationProviderList = useElevationProviders()
+  const selectedPoint = routePoints.find(point => point.id === selectedPointId) ?? null
+
+  const flushAutosave = useCallback(() => {
+    const pending = pendingSaveRef.current
+    pendingSaveRef.current = null
+    if (!pending) return Promise.resolve()
+    return savedRoutes.updatePoints(pending.id, pending.points).catch(error => {
+      console.error('Failed to save route:', error)
+      toast.error('Failed to save route', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    })
+  }, [])
+
+  // Switching routes starts a fresh undo history and moves the URL to /route/:routeId
+  const { reset: resetRouteHistory } = routeHistory
+  const openRoute = useCallback(async (route: SavedRoute, options: { replace?: boolean, selectedIndex?: number | null } = {}) => {
+    await flushAutosave()
+    resetRouteHistory(`Open ${route.name}`, route.points)
+    setActiveRouteId(route.id)
+    setSelectedPointId(route.points[options.selectedIndex ?? -1]?.id ?? null)
+    navigate(`/route/${route.id}`, { replace: options.replace })
+    savedRoutes.saveSession({ activeRouteId: route.id }).catch(error => {
+      console.warn('Failed to save session:', error)
+    })
+  }, [flushAutosave, resetRouteHistory, navigate])
+
+  // Open the route from a share link or the URL, else reopen the last route and map
+  // view, or start the workspace with an empty route. Runs once per page load.
+  const workspaceOpenedRef = useRef(false)
+  useEffect(() => {
+    if (workspaceOpenedRef.current) return
+    workspaceOpenedRef.current = true
+
+    savedRoutes.load().then(async () => {
+      const session = savedRoutes.getSession()
+      if (session.timing) setTimingSettings(session.timing)
+
+      if (hasSharedRoute(searchParams)) {
+        try {
+          const shared = parseSharedRoute(searchParams)
+          const route = await savedRoutes.create(shared.name || 'Shared route', shared.points)
+          setInitialMapView(shared.view ?? session.mapView ?? DEFAULT_MAP_VIEW)
+          await openRoute(route, { replace: true, selectedIndex: shared.selectedIndex })
+          toast.success(`Opened shared route ${route.name}`, {
+            description: `${plural(route.points.length, 'waypoint')}, saved to your routes`
+          })
+          return
+        } catch (error) {
+          console.error('Failed to open shared route:', error)
+          toast.error('Failed to open shared link', {
+            description: error instanceof Error ? error.message : undefined
+          })
+        }
+      }
+
+      const requested = routeId ? savedRoutes.get(routeId) : undefined
+      if (routeId && !requested) {
+        toast.warning('Route not found', {
+          description: 'It was deleted or saved in another browser; use a share link to send routes to others'
+        })
+      }
+      const route = requested ||
+        (session.activeRouteId && savedRoutes.get(session.activeRouteId)) ||
+        savedRoutes.list()[0] ||
+        await savedRoutes.create('Route 1')
+      setInitialMapView(session.mapView ?? DEFAULT_MAP_VIEW)
+      await openRoute(route, { replace: true })
+    }).catch(error => {
+      console.error('Failed to open route workspace:', error)
+      setInitialMapView(DEFAULT_MAP_VIEW)
+    })
+  }, [openRoute, routeId, searchParams])
+
+  // Back and forward between /route/:routeId URLs switch routes
+  useEffect(() => {
+    if (!routeId || !activeRouteId || routeId === activeRouteId) return
+    const route = savedRoutes.get(routeId)
+    if (route) openRoute(route, { replace: true })
+  }, [routeId, activeRouteId, openRoute])
+
+  const copyShareLink = useCallback(async () => {
+    const url = createShareUrl(
+      new URL(import.meta.env.BASE_URL, window.location.origin).toString(),
+      { name: (activeRouteId && savedRoutes.get(activeRouteId)?.name) || 'Shared route', points: routePoints },
+      savedRoutes.getSession().mapView,
+      routePoints.findIndex(point => point.id === selectedPointId)
+    )
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success('Share link copied', {
+        description: `Opens ${plural(routePoints.length, 'waypoint')} and the current map view`
+      })
+    } catch (error) {
+      // Clipboard access needs a secure context and focus
+      console.warn('Failed to copy share link:', error)
+      toast.info('Copy this link to share the route', { description: url })
+    }
+  }, [activeRouteId, routePoints, selectedPointId])
+
+  // Autosave edits shortly after they stop
+  useEffect(() => {
+    if (!activeRouteId || savedRoutes.get(activeRouteId)?.points === routePoints) return
+    pendingSaveRef.current = { id: activeRouteId, points: routePoints }
+    const timer = setTimeout(flushAutosave, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [activeRouteId, routePoints, flushAutosave])
+
+  // ...and before the page goes away
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushAutosave()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [flushAutosave])
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const target = event.target as HTMLElement
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // Fall back to auto mode if the selected provider gets unregistered
+  useEffect(() => {
+    if (elevationDataSource !== 'auto' && elevationDataSource !== 'regional' &&
+        !elevationProviderList.some(provider => provider.id === elevationDataSource)) {
+      setElevationDataSource('auto')
+    }
+  }, [elevationDataSource, elevationProviderList])
 
   // Initialize Leaflet icons and dark mode on component mount
   useEffect(() => {
@@ -110,8 +330,11 @@ function App() {
     }
   }, [isDarkMode])
 
-  // Enhanced elevation fetching using multiple elevation APIs
-  const fetchElevationForPoint = useCallback(async (point: RoutePoint) => {
+  // Enhanced elevation fetching using multiple elevation APIs. With the history group
+  // of the edit that triggered it, the result is undone together with that edit.
+  const fetchElevationForPoint = useCallback(async (point: RoutePoint, group?: string) => {
+    const recordEdit = (label: string, update: (points: RoutePoint[]) => RoutePoint[]) =>
+      group ? applyFollowUp(label, update, group) : applyRouteEdit(label, update)
     try {
       setIsFetchingElevation(true)
       setElevationProgress(0)
@@ -122,35 +345,25 @@ function App() {
         setElevationProgress(prev => Math.min(prev + 20, 80))
       }, 200)
       
-      const altitude = await altitudeService.getAltitude(point.lat, point.lng, 0, elevationDataSource)
+      const { altitude, ...altitudeSource } = await altitudeService.getElevation(point.lat, point.lng, elevationDataSource)
       
       clearInterval(progressInterval)
       setElevationProgress(100)
       
-      setRoutePoints(prev => prev.map(p => 
-        p.id === point.id ? { ...p, altitude } : p
-      ))
-      setSelectedPoint(prev => 
-        prev?.id === point.id ? { ...prev, altitude } : prev
-      )
+      // Drop the result if the point was dragged elsewhere in the meantime
+      recordEdit(`Fetch elevation for ${point.name}`, prev =>
+        updateMatching(prev, p => isAtPosition(p, point), p => ({ ...p, altitude, altitudeSource })))
       
       const isInFrance = altitudeService.isInFrance(point.lat, point.lng)
       const region = isInFrance ? 'France region' : 'Global coverage'
       
-      // Check if this is likely a fallback value (no API worked)
-      const isLikelyFallback = (
-        altitude % 50 === 0 || 
-        (altitude >= 100 && altitude <= 300 && altitude % 10 === 0) ||
-        (isInFrance && altitude >= 150 && altitude <= 200)
-      )
-      
-      if (isLikelyFallback) {
+      if (altitudeSource.estimated) {
         toast.warning(`Elevation estimated: ${altitude}m (${region})`, {
           description: 'Using regional estimates - elevation APIs may be unavailable. Check Service Status for details.'
         })
       } else {
         toast.success(`Elevation updated: ${altitude}m (${region})`, {
-          description: `Retrieved from ${elevationDataSource === 'auto' ? 'live elevation API' : elevationDataSource}`
+          description: `Retrieved from ${altitudeSource.sourceLabel} (${describeProvenance(altitudeSource)})`
         })
       }
       
@@ -158,14 +371,10 @@ function App() {
       console.error('Elevation fetch failed:', error)
       
       // Fallback to regional estimate
-      const fallbackAltitude = altitudeService.isInFrance(point.lat, point.lng) ? 150 : 200
+      const { altitude: fallbackAltitude, ...altitudeSource } = await altitudeService.getElevation(point.lat, point.lng, 'regional')
       
-      setRoutePoints(prev => prev.map(p => 
-        p.id === point.id ? { ...p, altitude: fallbackAltitude } : p
-      ))
-      setSelectedPoint(prev => 
-        prev?.id === point.id ? { ...prev, altitude: fallbackAltitude } : prev
-      )
+      recordEdit(`Estimate elevation for ${point.name}`, prev =>
+        updateMatching(prev, p => isAtPosition(p, point), p => ({ ...p, altitude: fallbackAltitude, altitudeSource })))
       
       // Provide more helpful error message with better categorization
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -179,7 +388,7 @@ function App() {
       } else if (errorMessage.includes('Network') || errorMessage.includes('Failed to fetch')) {
         if (errorMessage.includes('Demo API key') || errorMessage.includes('choisirgeoportail')) {
           toast.info(`Using regional estimate: ${fallbackAltitude}m (${region})`, {
-            description: 'IGN demo API key expired. Regional estimates provide good accuracy for France.'
+            description: 'IGN demo API key expired. Regional estimates only outline major relief and can be off by hundreds of meters.'
           })
         } else {
           toast.warning(`Using regional estimate: ${fallbackAltitude}m (${region})`, {
@@ -196,7 +405,7 @@ function App() {
         })
       } else {
         toast.info(`Using regional estimate: ${fallbackAltitude}m (${region})`, {
-          description: 'Elevation APIs unavailable. Regional estimates provide good accuracy.'
+          description: 'Elevation APIs unavailable. Regional estimates only outline major relief and can be off by hundreds of meters.'
         })
       }
     } finally {
@@ -204,7 +413,7 @@ function App() {
       setElevationStatus('')
       setTimeout(() => setElevationProgress(0), 1000) // Reset progress after delay
     }
-  }, [elevationDataSource])
+  }, [elevationDataSource, applyRouteEdit, applyFollowUp])
 
   const addRoutePoint = useCallback(async (latlng: LatLng) => {
     try {
@@ -214,19 +423,20 @@ function App() {
         lat: latlng.lat,
         lng: latlng.lng,
         altitude: 100, // Default altitude in meters
-        timestamp: routePoints.length * 10, // 10 seconds between points
-        name: `Waypoint ${routePoints.length + 1}`
+        timestamp: nextTimestamp(routePoints, { lat: latlng.lat, lng: latlng.lng, altitude: 100 }, timingSettings),
+        name: defaultWaypointName(routePoints.length)
       }
       
       // Use functional state updates to prevent race conditions
-      setRoutePoints(prev => [...prev, newPoint])
-      setSelectedPoint(newPoint)
+      const group = `${newPoint.id}:add`
+      applyRouteEdit(`Add ${newPoint.name}`, prev => [...prev, newPoint], group)
+      setSelectedPointId(newPoint.id)
       
       // Auto-fetch elevation for new points if enabled
       if (autoFetchElevation) {
         // Use setTimeout to ensure the UI update happens first
         setTimeout(() => {
-          fetchElevationForPoint(newPoint).catch(error => {
+          fetchElevationForPoint(newPoint, group).catch(error => {
             console.error('Failed to fetch elevation for new point:', error)
           })
         }, 0)
@@ -236,27 +446,116 @@ function App() {
       // Prevent error from bubbling up and causing page refresh
       return false
     }
-  }, [routePoints.length, autoFetchElevation, fetchElevationForPoint])
+  }, [routePoints, timingSettings, autoFetchElevation, fetchElevationForPoint, applyRouteEdit])
 
   const removeRoutePoint = useCallback((id: string) => {
-    setRoutePoints(prev => prev.filter(point => point.id !== id))
-    setSelectedPoint(null)
-  }, [])
+    const name = routePoints.find(point => point.id === id)?.name ?? 'waypoint'
+    applyRouteEdit(`Delete ${name}`, prev => renumberWaypoints(prev.filter(point => point.id !== id)))
+    setSelectedPointId(null)
+  }, [routePoints, applyRouteEdit])
 
+  // Insert a waypoint on the segment after point `segment`, e.g. from a click on the route
+  const insertRoutePointAt = useCallback((segment: number, latlng: LatLng) => {
+    try {
+      const { points, inserted } = insertRoutePoint(routePoints, segment, latlng)
+      const group = `${inserted.id}:insert`
+      applyRouteEdit(`Insert ${inserted.name}`, () => points, group)
+      setSelectedPointId(inserted.id)
+
+      if (autoFetchElevation) {
+        fetchElevationForPoint(inserted, group).catch(error => {
+          console.error('Failed to fetch elevation for inserted point:', error)
+        })
+      }
+    } catch (error) {
+      console.error('Failed to insert route point:', error)
+    }
+  }, [routePoints, autoFetchElevation, fetchElevationForPoint, applyRouteEdit])
+
+  // Field edits are grouped per point and field, so typing a name is one history entry
   const updateRoutePoint = useCallback((id: string, updates: Partial<RoutePoint>) => {
-    setRoutePoints(prev => prev.map(point => 
-      point.id === id ? { ...point, ...updates } : point
-    ))
-    if (selectedPoint?.id === id) {
-      setSelectedPoint(prev => prev ? { ...prev, ...updates } : null)
+    const fields = Object.keys(updates)
+    const name = routePoints.find(point => point.id === id)?.name ?? 'waypoint'
+    applyRouteEdit(
+      `${FIELD_EDIT_LABELS[fields[0]] ?? 'Edit'} ${name}`,
+      prev => updateMatching(prev, point => point.id === id, point => ({ ...point, ...updates })),
+      `${id}:${fields.join(',')}`
+    )
+  }, [routePoints, applyRouteEdit])
+
+  // Dragging a marker keeps the point's name and timestamp; its elevation belongs to
+  // the old position, so it is re-fetched or marked as no longer sourced
+  const moveRoutePoint = useCallback((point: RoutePoint, latlng: LatLng) => {
+    const moved = { ...point, lat: latlng.lat, lng: latlng.lng, altitudeSource: undefined }
+    // Each drag is its own entry, even of the same point in quick succession
+    const group = `${point.id}:move:${Date.now()}`
+    applyRouteEdit(`Move ${point.name}`, prev => updateMatching(prev, p => p.id === point.id,
+      p => ({ ...p, lat: moved.lat, lng: moved.lng, altitudeSource: undefined })), group)
+
+    if (autoFetchElevation) {
+      fetchElevationForPoint(moved, group).catch(error => {
+        console.error('Failed to fetch elevation for moved point:', error)
+      })
     }
-  }, [selectedPoint])
+  }, [applyRouteEdit, autoFetchElevation, fetchElevationForPoint])
 
-  const clearAllPoints = useCallback(() => {
-    setRoutePoints([])
-    setSelectedPoint(null)
+  // A pinned time is kept when times are recomputed from the timing settings
+  const toggleTimePin = useCallback((point: RoutePoint) => {
+    applyRouteEdit(`${point.timePinned ? 'Unpin' : 'Pin'} time of ${point.name}`, prev =>
+      updateMatching(prev, p => p.id === point.id, p => ({ ...p, timePinned: !point.timePinned || undefined })))
+  }, [applyRouteEdit])
+
+  // Bulk edits from the waypoint list and timing replace the whole route
+  const replaceRoutePoints = useCallback((points: RoutePoint[], label: string) => {
+    applyRouteEdit(label, () => points)
+  }, [applyRouteEdit])
+
+  const changeTimingSettings = useCallback((settings: TimingSettings) => {
+    setTimingSettings(settings)
+    savedRoutes.saveSession({ timing: settings }).catch(error => {
+      console.warn('Failed to save session:', error)
+    })
   }, [])
 
+  const refetchElevations = useCallback(async (points: RoutePoint[]) => {
+    setIsFetchingElevation(true)
+    setElevationStatus(`Fetching ${points.length} elevations...`)
+    try {
+      const results = await altitudeService.getAltitudes(points, elevationDataSource, {
+        onProgress: (done, total) => setElevationProgress(total > 0 ? Math.round(done / total * 100) : 0)
+      })
+      const update = (point: RoutePoint) => {
+        const index = points.findIndex(p => isAtPosition(point, p))
+        if (index < 0) return point
+        const { altitude, ...altitudeSource } = results[index]
+        return { ...point, altitude, altitudeSource }
+      }
+      applyRouteEdit(`Fetch ${plural(points.length, 'elevation')}`, prev =>
+        updateMatching(prev, point => points.some(p => isAtPosition(point, p)), update))
+
+      const estimated = results.filter(result => result.estimated).length
+      if (estimated > 0) {
+        toast.warning(`Updated ${points.length} elevations`, {
+          description: `${estimated} use regional estimates`
+        })
+      } else {
+        toast.success(`Updated ${points.length} elevations`)
+      }
+    } catch (error) {
+      console.error('Elevation refresh failed:', error)
+      toast.error('Failed to re-fetch elevations')
+    } finally {
+      setIsFetchingElevation(false)
+      setElevationStatus('')
+      setTimeout(() => setElevationProgress(0), 1000)
+    }
+  }, [elevationDataSource, applyRouteEdit])
+
+  const clearAllPoints = useCallback(() => {
+    applyRouteEdit('Clear route', () => [])
+    setSelectedPointId(null)
+  }, [applyRouteEdit])
+
   const calculateDistance = useCallback((p1: RoutePoint, p2: RoutePoint): number => {
     const R = 6371000 // Earth's radius in meters
     const dLat = (p2.lat - p1.lat) * Math.PI / 180
@@ -282,6 +581,7 @@ function App() {
     }
 
     const trajectoryData: TrajectoryData = {
+      version: TRAJECTORY_FORMAT_VERSION,
       points: routePoints,
       totalDistance,
       totalTime: routePoints[routePoints.length - 1]?.timestamp || 0,
@@ -289,43 +589,76 @@ function App() {
     }
 
     // Download trajectory data
-    const blob = new Blob([JSON.stringify(trajectoryData, null, 2)], {
-      type: 'application/json'
-    })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `trajectory_${Date.now()}.json`
-    a.click()
-    URL.revokeObjectURL(url)
+    try {
+      // Terrain-following missions and KML heights relative to ground need the ground
+      // elevation under every waypoint
+      const format = EXPORT_FORMATS.find(f => f.id === exportFormat)
+      const usesTerrain = (missionFrame === 'terrain' && format?.usesMissionFrame) ||
+        (kmlAltitudeMode === 'relativeToGround' && format?.usesAltitudeMode)
+      const terrainResults = usesTerrain
+        ? await altitudeService.getAltitudes(routePoints, elevationDataSource)
+        : null
+      // Terrain model estimates can be off by hundreds of meters, too far to derive heights above ground from
+      const estimatedGround = routePoints.filter((_, index) => terrainResults?.[index].estimated)
+      if (estimatedGround.length > 0) {
+        throw new Error(`Ground elevation under ${listNames(estimatedGround.map(point => point.name))} is only estimated; retry when an elevation source answers, or import a DEM for the area`)
+      }
+
+      downloadTrajectory(trajectoryData, exportFormat, {
+        altitudeMode: kmlAltitudeMode,
+        missionFrame,
+        terrainElevations: terrainResults?.map(result => result.altitude) ?? null
+      })
+    } catch (error) {
+      console.error('Failed to export trajectory:', error)
+      toast.error('Failed to export trajectory', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    }
 
     setIsGenerating(false)
-  }, [routePoints, calculateDistance])
+  }, [routePoints, calculateDistance, exportFormat, kmlAltitudeMode, missionFrame, elevationDataSource])
 
   const importTrajectory = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     event.preventDefault()
     const file = event.target.files?.[0]
     if (!file) return
 
-    const reader = new FileReader()
-    reader.onload = (e) => {
-      try {
-        const data = JSON.parse(e.target?.result as string) as TrajectoryData
-        setRoutePoints(data.points || [])
-        toast.success(`Imported ${data.points?.length || 0} waypoints`)
-      } catch (error) {
-        console.error('Failed to import trajectory:', error)
-        toast.error('Failed to import trajectory file')
-      }
-    }
-    reader.onerror = () => {
-      toast.error('Failed to read trajectory file')
-    }
-    reader.readAsText(file)
-    
     // Reset the input value to allow re-importing the same file
     event.target.value = ''
-  }, [])
+
+    // CSV columns are mapped by the user first
+    if (isCsvFile(file)) {
+      setCsvImportFile(file)
+      return
+    }
+
+    importTrajectoryFile(file)
+      .then(({ points, summary, warning }) => {
+        applyRouteEdit(`Import ${file.name}`, () => points)
+        setSelectedPointId(null)
+        if (warning) {
+          toast.warning(`Imported ${summary}`, { description: warning })
+        } else {
+          toast.success(`Imported ${summary}`)
+        }
+      })
+      .catch(error => {
+        console.error('Failed to import trajectory:', error)
+        toast.error('Failed to import trajectory file', {
+          description: error instanceof Error ? error.message : undefined
+        })
+      })
+  }, [applyRouteEdit])
+
+  const importCsv = useCallback(({ points, skippedRows }: CsvImportResult, fileName: string) => {
+    applyRouteEdit(`Import ${fileName}`, () => points)
+    setSelectedPointId(null)
+    setCsvImportFile(null)
+    toast.success(`Imported ${points.length} waypoints from ${fileName}`, {
+      description: skippedRows > 0 ? `${skippedRows} rows without valid coordinates were skipped` : undefined
+    })
+  }, [applyRouteEdit])
 
   const fetchElevationData = useCallback(async (point: RoutePoint) => {
     if (!point) return
@@ -357,6 +690,11 @@ function App() {
         richColors
         closeButton
       />
+      <CsvImportDialog
+        file={csvImportFile}
+        onClose={() => setCsvImportFile(null)}
+        onImport={importCsv}
+      />
       {/* Control Panel Sidebar */}
       <div className="w-80 bg-card border-r border-border flex flex-col">
         <div className="p-6 border-b border-border">
@@ -364,25 +702,41 @@ function App() {
             <h1 className="text-2xl font-semibold text-foreground">
               GPS Route Planner
             </h1>
-            <Button
-              type="button"
-              variant="ghost"
-              size="sm"
-              onClick={() => setIsDarkMode(!isDarkMode)}
-              className="h-8 w-8 p-0"
-            >
-              {isDarkMode ? (
-                <Sun className="h-4 w-4" />
-              ) : (
-                <Moon className="h-4 w-4" />
-              )}
-            </Button>
+            <div className="flex items-center">
+              <RouteHistory
+                entries={routeHistory.entries}
+                index={routeHistory.index}
+                canUndo={routeHistory.canUndo}
+                canRedo={routeHistory.canRedo}
+                onUndo={undo}
+                onRedo={redo}
+                onJump={routeHistory.jumpTo}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsDarkMode(!isDarkMode)}
+                className="h-8 w-8 p-0"
+              >
+                {isDarkMode ? (
+                  <Sun className="h-4 w-4" />
+                ) : (
+                  <Moon className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
           </div>
           <p className="text-sm text-muted-foreground">
             Click on the map to add waypoints for 3D trajectory generation
           </p>
         </div>
 
+        {/* Route Workspace */}
+        <div className="p-4 border-b border-border">
+          <SavedRoutes activeId={activeRouteId} onOpen={openRoute} />
+        </div>
+
         {/* Route Statistics */}
         <div className="p-4 border-b border-border">
           <div className="grid grid-cols-2 gap-4">
@@ -431,16 +785,21 @@ function App() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="auto">Auto (Multiple APIs)</SelectItem>
-                  <SelectItem value="opentopodata-srtm30m">OpenTopoData SRTM30m (Global)</SelectItem>
-                  <SelectItem value="opentopodata-eudem">OpenTopoData EU-DEM (Europe)</SelectItem>
-                  <SelectItem value="open-elevation">Open-Elevation (Global)</SelectItem>
-                  <SelectItem value="ign-rge-alti">IGN RGE ALTI (France)</SelectItem>
-                  <SelectItem value="opentopodata-aster">OpenTopoData ASTER30m (Global)</SelectItem>
+                  {elevationProviderList.map(provider => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.label}
+                      {provider.description && (
+                        <span className="ml-1 text-xs text-muted-foreground">({provider.description})</span>
+                      )}
+                    </SelectItem>
+                  ))}
                   <SelectItem value="regional">Regional Estimates</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             
+            <LocalDemSources />
+            
             <div className="flex items-center justify-between">
               <Label htmlFor="auto-fetch" className="text-xs">Auto-fetch on pin drop</Label>
               <Button
@@ -466,44 +825,39 @@ function App() {
           </div>
         </div>
 
-        {/* Selected Waypoint Display */}
+        {/* Timing */}
+        <div className="p-4 border-b border-border">
+          <RouteTiming
+            points={routePoints}
+            settings={timingSettings}
+            onSettingsChange={changeTimingSettings}
+            onChange={replaceRoutePoints}
+          />
+        </div>
+
+        {/* Waypoint List */}
         <div className="flex-1 overflow-y-auto">
           <div className="p-4">
-            <h3 className="text-sm font-medium text-foreground mb-3">Selected Waypoint</h3>
-            {!selectedPoint ? (
+            {routePoints.length === 0 ? (
               <p className="text-sm text-muted-foreground text-center py-8">
-                {routePoints.length === 0 
-                  ? "Click on the map to add your first waypoint"
-                  : "Click on a waypoint marker to select it"
-                }
+                Click on the map to add your first waypoint
               </p>
             ) : (
-              <Card className="ring-2 ring-primary bg-primary/5">
-                <CardContent className="p-3">
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center">
-                      <Badge variant="secondary" className="mr-2">
-                        {routePoints.findIndex(p => p.id === selectedPoint.id) + 1}
-                      </Badge>
-                      <span className="text-sm font-medium text-foreground">{selectedPoint.name}</span>
-                    </div>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeRoutePoint(selectedPoint.id)}
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </Button>
-                  </div>
-                  <div className="text-xs text-muted-foreground space-y-1">
-                    <div>Lat: {selectedPoint.lat.toFixed(6)}</div>
-                    <div>Lng: {selectedPoint.lng.toFixed(6)}</div>
-                    <div>Alt: {selectedPoint.altitude}m</div>
-                    <div>Time: {selectedPoint.timestamp}s</div>
-                  </div>
-                </CardContent>
-              </Card>
+              <>
+                <WaypointList
+                  points={routePoints}
+                  selectedId={selectedPoint?.id ?? null}
+                  onSelect={point => setSelectedPointId(point.id)}
+                  onChange={replaceRoutePoints}
+                  onRefetchElevation={refetchElevations}
+                  isFetchingElevation={isFetchingElevation}
+                />
+                {!selectedPoint && (
+                  <p className="text-xs text-muted-foreground text-center mt-3">
+                    Click on a waypoint marker to select it, drag it to move it, or click the route to insert one
+                  </p>
+                )}
+              </>
             )}
           </div>
         </div>
@@ -511,7 +865,24 @@ function App() {
         {/* Point Editor */}
         {selectedPoint && (
           <div className="p-4 border-t border-border">
-            <h3 className="text-sm font-medium text-foreground mb-3">Edit Waypoint</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-foreground">
+                Edit Waypoint {routePoints.findIndex(p => p.id === selectedPoint.id) + 1}
+              </h3>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeRoutePoint(selectedPoint.id)}
+                aria-label={`Remove ${selectedPoint.name}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+            <div className="text-xs text-muted-foreground mb-3">
+              <div>{selectedPoint.lat.toFixed(6)}, {selectedPoint.lng.toFixed(6)}</div>
+              <AltitudeProvenance provenance={selectedPoint.altitudeSource} />
+            </div>
             <div className="space-y-3">
               <div>
                 <Label htmlFor="point-name" className="text-xs">Name</Label>
@@ -541,27 +912,144 @@ function App() {
                   id="point-altitude"
                   type="number"
                   value={selectedPoint.altitude}
-                  onChange={(e) => updateRoutePoint(selectedPoint.id, { altitude: Number(e.target.value) })}
+                  onChange={(e) => updateRoutePoint(selectedPoint.id, { altitude: Number(e.target.value), altitudeSource: undefined })}
                   className="h-8"
                 />
               </div>
-              <div>
-                <Label htmlFor="point-timestamp" className="text-xs">Time (s)</Label>
-                <Input
-                  id="point-timestamp"
-                  type="number"
-                  value={selectedPoint.timestamp}
-                  onChange={(e) => updateRoutePoint(selectedPoint.id, { timestamp: Number(e.target.value) })}
-                  className="h-8"
-                />
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="point-timestamp" className="text-xs">Time (s)</Label>
+                  <div className="flex gap-1">
+                    {/* Typing a time pins it, so recomputing times keeps it */}
+                    <Input
+                      id="point-timestamp"
+                      type="number"
+                      value={selectedPoint.timestamp}
+                      onChange={(e) => updateRoutePoint(selectedPoint.id, { timestamp: Number(e.target.value), timePinned: true })}
+                      className="h-8"
+                    />
+                    <Button
+                      type="button"
+                      variant={selectedPoint.timePinned ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => toggleTimePin(selectedPoint)}
+                      className="h-8 w-8 p-0 shrink-0"
+                      aria-label={selectedPoint.timePinned ? 'Unpin time' : 'Pin time'}
+                      aria-pressed={!!selectedPoint.timePinned}
+                    >
+                      {selectedPoint.timePinned ? <Pin className="w-3 h-3" /> : <PinOff className="w-3 h-3" />}
+                    </Button>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="point-leg-speed" className="text-xs">Leg speed (m/s)</Label>
+                  <Input
+                    id="point-leg-speed"
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={selectedPoint.legSpeed ?? ''}
+                    placeholder={String(timingSettings.groundSpeed)}
+                    onChange={(e) => updateRoutePoint(selectedPoint.id, { legSpeed: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+                    disabled={selectedPoint.id === routePoints[routePoints.length - 1]?.id}
+                    className="h-8"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="point-command" className="text-xs">Mission command</Label>
+                  <Select
+                    value={selectedPoint.missionCommand ?? 'waypoint'}
+                    onValueChange={(value) => updateRoutePoint(selectedPoint.id, { missionCommand: value as MissionCommand })}
+                  >
+                    <SelectTrigger id="point-command" className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MISSION_COMMANDS.map(command => (
+                        <SelectItem key={command.id} value={command.id}>{command.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="point-hold" className="text-xs">Hold (s)</Label>
+                  <Input
+                    id="point-hold"
+                    type="number"
+                    min={0}
+                    value={selectedPoint.holdTime ?? 0}
+                    onChange={(e) => updateRoutePoint(selectedPoint.id, { holdTime: Math.max(0, Number(e.target.value)) || undefined })}
+                    className="h-8"
+                  />
+                </div>
               </div>
             </div>
           </div>
         )}
 
+        {/* Recorded Tracks */}
+        <div className="p-4 border-t border-border">
+          <RecordedTracks
+            tracks={recordedTracks}
+            onAdd={(track) => setRecordedTracks(prev => [...prev, track])}
+            onToggle={(id) => setRecordedTracks(prev => prev.map(track =>
+              track.id === id ? { ...track, visible: !track.visible } : track
+            ))}
+            onRemove={(id) => setRecordedTracks(prev => prev.filter(track => track.id !== id))}
+          />
+        </div>
+
         {/* Action Buttons */}
         <div className="p-4 border-t border-border space-y-2">
-          <TrajectoryPlotter routePoints={routePoints} elevationDataSource={elevationDataSource} />
+          <TrajectoryPlotter routePoints={routePoints} elevationDataSource={elevationDataSource} recordedTracks={recordedTracks} />
+          
+          <Select value={exportFormat} onValueChange={setExportFormat}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Export format" />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPORT_FORMATS.map(format => (
+                <SelectItem key={format.id} value={format.id}>
+                  {format.label}
+                  <span className="ml-1 text-muted-foreground">(.{format.extension})</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          
+          {EXPORT_FORMATS.find(format => format.id === exportFormat)?.usesAltitudeMode && (
+            <Select value={kmlAltitudeMode} onValueChange={(value) => setKmlAltitudeMode(value as KmlAltitudeMode)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Altitude mode" />
+              </SelectTrigger>
+              <SelectContent>
+                {KML_ALTITUDE_MODES.map(mode => (
+                  <SelectItem key={mode.id} value={mode.id}>
+                    {mode.label}
+                    <span className="ml-1 text-xs text-muted-foreground">({mode.description})</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          
+          {EXPORT_FORMATS.find(format => format.id === exportFormat)?.usesMissionFrame && (
+            <Select value={missionFrame} onValueChange={(value) => setMissionFrame(value as MissionAltitudeFrame)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Altitude frame" />
+              </SelectTrigger>
+              <SelectContent>
+                {MISSION_ALTITUDE_FRAMES.map(frame => (
+                  <SelectItem key={frame.id} value={frame.id}>
+                    {frame.label}
+                    <span className="ml-1 text-xs text-muted-foreground">({frame.description})</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           
           <Button
             type="button"
@@ -583,6 +1071,16 @@ function App() {
               <Upload className="w-4 h-4 mr-2" />
               Import
             </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={copyShareLink}
+              disabled={routePoints.length === 0}
+              className="flex-1"
+            >
+              <Share2 className="w-4 h-4 mr-2" />
+              Share
+            </Button>
             <Button
               type="button"
               variant="outline"
@@ -614,7 +1112,7 @@ function App() {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json"
+            accept={IMPORT_ACCEPT}
             onChange={importTrajectory}
             className="hidden"
           />
@@ -623,7 +1121,7 @@ function App() {
 
       {/* Map Container */}
       <div className="flex-1 relative">
-        {!mapReady ? (
+        {!mapReady || !initialMapView ? (
           <div className="h-full w-full flex items-center justify-center bg-background">
             <div className="text-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
@@ -632,8 +1130,8 @@ function App() {
           </div>
         ) : (
           <MapContainer
-            center={TOULOUSE_CENTER}
-            zoom={12}
+            center={[initialMapView.lat, initialMapView.lng]}
+            zoom={initialMapView.zoom}
             className="h-full w-full"
             zoomControl={true}
           >
@@ -646,14 +1144,36 @@ function App() {
             />
             
             <MapClickHandler onMapClick={addRoutePoint} />
+            <MapViewTracker />
+            
+            {/* Recorded Tracks (read-only) */}
+            {recordedTracks.filter(track => track.visible).map(track => (
+              <Polyline
+                key={track.id}
+                positions={track.points.map(point => [point.lat, point.lng])}
+                color={isDarkMode ? "#FBBF24" : "#D97706"}
+                weight={2}
+                opacity={0.8}
+                dashArray="6 4"
+              >
+                <Popup>
+                  <div className="text-sm">
+                    <div className="font-medium mb-1">{track.name}</div>
+                    <div>Recorded {track.format} track · {track.points.length} fixes</div>
+                  </div>
+                </Popup>
+              </Polyline>
+            ))}
             
             {/* Route Points */}
             {routePoints.map((point, index) => (
               <Marker
                 key={point.id}
                 position={[point.lat, point.lng]}
+                draggable
                 eventHandlers={{
-                  click: () => setSelectedPoint(point)
+                  click: () => setSelectedPointId(point.id),
+                  dragend: (e) => moveRoutePoint(point, e.target.getLatLng())
                 }}
               >
                 <Popup>
@@ -663,20 +1183,43 @@ function App() {
                     <div>Lng: {point.lng.toFixed(6)}</div>
                     <div>Altitude: {point.altitude}m</div>
                     <div>Time: {point.timestamp}s</div>
+                    <AltitudeProvenance provenance={point.altitudeSource} />
                   </div>
                 </Popup>
               </Marker>
             ))}
             
-            {/* Route Path */}
+            {/* Route Path, click to insert a waypoint */}
             {routePoints.length > 1 && (
               <Polyline
                 positions={routePoints.map(point => [point.lat, point.lng])}
                 color={isDarkMode ? "#60A5FA" : "#2563EB"}
                 weight={3}
                 opacity={0.8}
+                bubblingMouseEvents={false}
+                eventHandlers={{
+                  click: (e) => insertRoutePointAt(nearestSegment(routePoints, e.latlng), e.latlng)
+                }}
               />
             )}
+
+            {/* Segment midpoint handles */}
+            {routePoints.slice(1).map((point, index) => {
+              const previous = routePoints[index]
+              const midpoint = new LatLng((previous.lat + point.lat) / 2, (previous.lng + point.lng) / 2)
+              return (
+                <Marker
+                  key={`${previous.id}-${point.id}`}
+                  position={midpoint}
+                  icon={midpointIcon}
+                  draggable
+                  eventHandlers={{
+                    click: () => insertRoutePointAt(index, midpoint),
+                    dragend: (e) => insertRoutePointAt(index, e.target.getLatLng())
+                  }}
+                />
+              )
+            })}
           </MapContainer>
         )}
 
@@ -0,0 +1,29 @@
+import { Badge } from './ui/badge'
+import { describeProvenance } from '../services/altitudeService'
+import type { ElevationProvenance } from '../services/altitudeService'
+
+interface AltitudeProvenanceProps {
+  provenance?: ElevationProvenance
+}
+
+export function AltitudeProvenance({ provenance }: AltitudeProvenanceProps) {
+  if (!provenance) {
+    return <div className="text-xs text-muted-foreground">Source: manual or default value</div>
+  }
+
+  return (
+    <div className="text-xs text-muted-foreground space-y-0.5">
+      <div className="flex items-center gap-1">
+        <span className="truncate">Source: {provenance.sourceLabel}</span>
+        <Badge
+          variant={provenance.estimated ? 'destructive' : 'secondary'}
+          className="text-[10px] px-1 py-0"
+        >
+          {provenance.estimated ? 'Estimate' : 'DEM'}
+        </Badge>
+      </div>
+      <div>{describeProvenance(provenance)}</div>
+      <div>Retrieved {new Date(provenance.retrievedAt).toLocaleString()}</div>
+    </div>
+  )
+}
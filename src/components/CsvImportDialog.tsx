@@ -0,0 +1,259 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { FileSpreadsheet } from 'lucide-react'
+import {
+  CSV_DELIMITERS,
+  CSV_FIELDS,
+  detectDelimiter,
+  guessColumnMapping,
+  looksLikeHeader,
+  parseCsvPoints,
+  parseCsvRows
+} from '../services/formats/csv'
+import type {
+  CsvAltitudeUnit,
+  CsvColumnMapping,
+  CsvDecimalSeparator,
+  CsvDelimiter,
+  CsvField,
+  CsvImportResult
+} from '../services/formats/csv'
+
+interface CsvImportDialogProps {
+  /** File to import; the dialog is open while set */
+  file: File | null
+  onClose: () => void
+  onImport: (result: CsvImportResult, fileName: string) => void
+}
+
+// Rows shown in the preview table
+const PREVIEW_ROWS = 8
+// Select items need a non-empty value for unmapped fields
+const UNMAPPED = 'none'
+
+const EMPTY_MAPPING: CsvColumnMapping = { lat: null, lng: null, altitude: null, time: null, name: null }
+
+export function CsvImportDialog({ file, onClose, onImport }: CsvImportDialogProps) {
+  const [text, setText] = useState('')
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',')
+  const [decimalSeparator, setDecimalSeparator] = useState<CsvDecimalSeparator>('.')
+  const [hasHeader, setHasHeader] = useState(true)
+  const [altitudeUnit, setAltitudeUnit] = useState<CsvAltitudeUnit>('m')
+  const [mapping, setMapping] = useState<CsvColumnMapping>(EMPTY_MAPPING)
+  const [readError, setReadError] = useState<string | null>(null)
+
+  // Read the file and guess the settings whenever a new file is chosen
+  useEffect(() => {
+    if (!file) return
+    let cancelled = false
+
+    file.text().then(content => {
+      if (cancelled) return
+      const detectedDelimiter = detectDelimiter(content)
+      const rows = parseCsvRows(content, detectedDelimiter)
+      // Semicolon-separated files usually come from locales using a decimal comma
+      const detectedDecimal: CsvDecimalSeparator = detectedDelimiter === ';' ? ',' : '.'
+      const header = rows.length > 0 && looksLikeHeader(rows[0], detectedDecimal)
+
+      setText(content)
+      setDelimiter(detectedDelimiter)
+      setDecimalSeparator(detectedDecimal)
+      setHasHeader(header)
+      setAltitudeUnit(header && rows[0].some(cell => /\b(ft|feet)\b/i.test(cell)) ? 'ft' : 'm')
+      setMapping(header
+        ? guessColumnMapping(rows[0])
+        : { lat: 0, lng: rows[0]?.length > 1 ? 1 : null, altitude: rows[0]?.length > 2 ? 2 : null, time: null, name: null })
+      setReadError(null)
+    }).catch(error => {
+      if (cancelled) return
+      console.error('Failed to read CSV file:', error)
+      setReadError('Failed to read CSV file')
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [file])
+
+  const rows = useMemo(() => parseCsvRows(text, delimiter), [text, delimiter])
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0)
+  const columnNames = Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && rows[0]?.[index] ? rows[0][index] : `Column ${index + 1}`
+  )
+  const previewRows = rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS)
+
+  const result = useMemo(() => {
+    if (mapping.lat === null || mapping.lng === null) return null
+    return parseCsvPoints(rows, { delimiter, decimalSeparator, hasHeader, altitudeUnit, mapping })
+  }, [rows, delimiter, decimalSeparator, hasHeader, altitudeUnit, mapping])
+
+  const fieldForColumn = (index: number) =>
+    CSV_FIELDS.find(field => mapping[field.id] === index)
+
+  const updateMapping = (field: CsvField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === UNMAPPED ? null : Number(value) }))
+  }
+
+  const handleImport = () => {
+    if (!file || !result || result.points.length === 0) return
+    onImport(result, file.name)
+  }
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileSpreadsheet className="w-5 h-5 mr-2" />
+            Import CSV
+          </DialogTitle>
+          <DialogDescription>
+            {file?.name} · choose how columns map to waypoint fields
+          </DialogDescription>
+        </DialogHeader>
+
+        {readError ? (
+          <p className="text-sm text-red-600">{readError}</p>
+        ) : (
+          <div className="space-y-4">
+            {/* Parsing options */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Delimiter</Label>
+                <Select value={delimiter} onValueChange={(value) => setDelimiter(value as CsvDelimiter)}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DELIMITERS.map(option => (
+                      <SelectItem key={option.label} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Decimal separator</Label>
+                <Select value={decimalSeparator} onValueChange={(value) => setDecimalSeparator(value as CsvDecimalSeparator)}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=".">Point (12.5)</SelectItem>
+                    <SelectItem value=",">Comma (12,5)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Altitude unit</Label>
+                <Select value={altitudeUnit} onValueChange={(value) => setAltitudeUnit(value as CsvAltitudeUnit)}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="m">Meters</SelectItem>
+                    <SelectItem value="ft">Feet</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end pb-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="csv-has-header"
+                    checked={hasHeader}
+                    onCheckedChange={(checked) => setHasHeader(checked === true)}
+                  />
+                  <Label htmlFor="csv-has-header" className="text-xs">First row is a header</Label>
+                </div>
+              </div>
+            </div>
+
+            {/* Column mapping */}
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {CSV_FIELDS.map(field => (
+                <div key={field.id} className="space-y-1">
+                  <Label className="text-xs">
+                    {field.label}{field.required && ' *'}
+                  </Label>
+                  <Select
+                    value={mapping[field.id] === null ? UNMAPPED : String(mapping[field.id])}
+                    onValueChange={(value) => updateMapping(field.id, value)}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {columnNames.map((name, index) => (
+                        <SelectItem key={index} value={String(index)}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Coordinates may be decimal degrees or DMS (e.g. 45°12'30"N). Plain numbers in the
+              time column are seconds from the start; other values are read as dates.
+            </p>
+
+            {/* Preview */}
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {columnNames.map((name, index) => (
+                      <TableHead key={index} className="text-xs whitespace-nowrap">
+                        {name}
+                        {fieldForColumn(index) && (
+                          <Badge variant="secondary" className="ml-1 text-[10px]">
+                            {fieldForColumn(index)!.label}
+                          </Badge>
+                        )}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((row, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      {columnNames.map((_, index) => (
+                        <TableCell
+                          key={index}
+                          className={`text-xs py-1 whitespace-nowrap ${fieldForColumn(index) ? '' : 'text-muted-foreground'}`}
+                        >
+                          {row[index] ?? ''}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {result === null
+                ? 'Map the latitude and longitude columns to import.'
+                : `${result.points.length} waypoint${result.points.length !== 1 ? 's' : ''} readable` +
+                  (result.skippedRows > 0 ? `, ${result.skippedRows} row${result.skippedRows !== 1 ? 's' : ''} without valid coordinates will be skipped` : '')}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!result || result.points.length === 0}>
+            Import {result ? result.points.length : 0} waypoints
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,240 @@
+import { useMemo, useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Download, Route } from 'lucide-react'
+import { DEVIATION_METRICS, analyzeDeviation } from '../services/deviationAnalysis'
+import type { DeviationAnalysis, DeviationMetric } from '../services/deviationAnalysis'
+import { downloadFile } from '../services/trajectoryFiles'
+import type { RecordedTrack, RoutePoint } from '../types/trajectory'
+
+interface DeviationReportProps {
+  routePoints: RoutePoint[]
+  tracks: RecordedTrack[]
+}
+
+function formatValue(value: number, unit: string): string {
+  return `${value.toFixed(1)}${unit}`
+}
+
+// One row per sample, for the flight test spreadsheets
+function exportDeviationCsv(analysis: DeviationAnalysis): string {
+  const header = ['lat', 'lng', 'elapsed_s', 'route_distance_m', 'cross_track_m', 'along_track_m', 'altitude_m', 'timing_s']
+  const format = (value: number | null, digits: number) => value === null ? '' : value.toFixed(digits)
+  const rows = analysis.samples.map(sample => [
+    sample.lat.toFixed(7),
+    sample.lng.toFixed(7),
+    format(sample.elapsed, 1),
+    format(sample.distance, 1),
+    format(sample.crossTrack, 2),
+    format(sample.alongTrack, 2),
+    format(sample.altitude, 2),
+    format(sample.timing, 1)
+  ].join(','))
+  return [header.join(','), ...rows].join('\n')
+}
+
+export function DeviationReport({ routePoints, tracks }: DeviationReportProps) {
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null)
+  const [metric, setMetric] = useState<DeviationMetric>('crossTrack')
+
+  const track = tracks.find(t => t.id === selectedTrackId) ?? tracks[0]
+
+  const { analysis, error } = useMemo(() => {
+    if (!track) return { analysis: null, error: null }
+    try {
+      return { analysis: analyzeDeviation(routePoints, track), error: null }
+    } catch (analysisError) {
+      return { analysis: null, error: analysisError instanceof Error ? analysisError.message : 'Analysis failed' }
+    }
+  }, [routePoints, track])
+
+  if (!track) {
+    return (
+      <div className="text-center py-8">
+        <Route className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          Load a recorded track (NMEA, IGC or TCX) to compare it with the planned route
+        </p>
+      </div>
+    )
+  }
+
+  const metricInfo = DEVIATION_METRICS.find(m => m.id === metric)!
+  const metricStats = analysis?.stats[metric] ?? null
+
+  // Deviation against distance along the planned route
+  const DeviationChart = () => {
+    if (!analysis || !metricStats) return null
+
+    const width = 600
+    const height = 300
+    const padding = 50
+
+    const values = analysis.samples
+      .map(sample => ({ distance: sample.distance, value: sample[metric] }))
+      .filter((sample): sample is { distance: number, value: number } => sample.value !== null)
+    const extent = Math.max(Math.abs(metricStats.max), 1)
+
+    const normalizeX = (distance: number) =>
+      padding + (distance / (analysis.routeLength || 1)) * (width - 2 * padding)
+
+    // Symmetric around zero so over- and undershoot read the same way
+    const normalizeY = (value: number) =>
+      height / 2 - (value / extent) * (height / 2 - padding)
+
+    return (
+      <div className="w-full h-80 bg-muted/50 rounded-lg border flex items-center justify-center">
+        <svg width={width} height={height} className="border rounded bg-background">
+          {/* Grid */}
+          <defs>
+            <pattern id="deviationGrid" width="20" height="20" patternUnits="userSpaceOnUse">
+              <path d="M 20 0 L 0 0 0 20" fill="none" stroke="hsl(var(--border))" strokeWidth="1"/>
+            </pattern>
+          </defs>
+          <rect width="100%" height="100%" fill="url(#deviationGrid)" />
+
+          {/* Planned route */}
+          <line
+            x1={padding}
+            y1={height / 2}
+            x2={width - padding}
+            y2={height / 2}
+            stroke="#2563EB"
+            strokeWidth="2"
+            strokeDasharray="6 4"
+          />
+
+          {/* Samples */}
+          {values.map((sample, index) => (
+            <circle
+              key={index}
+              cx={normalizeX(sample.distance)}
+              cy={normalizeY(sample.value)}
+              r="2"
+              fill="#D97706"
+            />
+          ))}
+
+          {/* Axes */}
+          <text x={width/2} y={height - 15} textAnchor="middle" fontSize="12" fill="hsl(var(--muted-foreground))">
+            Distance along route ({(analysis.routeLength / 1000).toFixed(2)}km)
+          </text>
+          <text x={20} y={height/2} textAnchor="middle" fontSize="12" fill="hsl(var(--muted-foreground))" transform={`rotate(-90, 20, ${height/2})`}>
+            {metricInfo.label} ({metricInfo.unit})
+          </text>
+
+          {/* Y-axis labels */}
+          <text x={padding - 10} y={normalizeY(extent) + 4} textAnchor="end" fontSize="10" fill="hsl(var(--muted-foreground))">
+            +{formatValue(extent, metricInfo.unit)}
+          </text>
+          <text x={padding - 10} y={height / 2 + 4} textAnchor="end" fontSize="10" fill="hsl(var(--muted-foreground))">
+            0
+          </text>
+          <text x={padding - 10} y={normalizeY(-extent) + 4} textAnchor="end" fontSize="10" fill="hsl(var(--muted-foreground))">
+            -{formatValue(extent, metricInfo.unit)}
+          </text>
+        </svg>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Recorded track</Label>
+          <Select value={track.id} onValueChange={setSelectedTrackId}>
+            <SelectTrigger className="h-8 w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {tracks.map(t => (
+                <SelectItem key={t.id} value={t.id}>{t.format} · {t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Chart</Label>
+          <Select value={metric} onValueChange={value => setMetric(value as DeviationMetric)}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEVIATION_METRICS.map(m => (
+                <SelectItem key={m.id} value={m.id} disabled={!analysis?.stats[m.id]}>{m.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {analysis && (
+          <Button
+            onClick={() => downloadFile(exportDeviationCsv(analysis), `deviation_${Date.now()}.csv`, 'text/csv')}
+            size="sm"
+            variant="outline"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : analysis && (
+        <>
+          <DeviationChart />
+          {!metricStats && (
+            <p className="text-xs text-muted-foreground text-center">
+              {track.name} has no {metric === 'altitude' ? 'altitude' : 'timestamp'} data for this chart
+            </p>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Deviation</TableHead>
+                <TableHead className="text-right">Samples</TableHead>
+                <TableHead className="text-right">Mean</TableHead>
+                <TableHead className="text-right">RMS</TableHead>
+                <TableHead className="text-right">Max</TableHead>
+                <TableHead className="text-right">P50</TableHead>
+                <TableHead className="text-right">P95</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {DEVIATION_METRICS.map(m => {
+                const stats = analysis.stats[m.id]
+                return (
+                  <TableRow key={m.id}>
+                    <TableCell className="font-medium">{m.label}</TableCell>
+                    {stats ? (
+                      <>
+                        <TableCell className="text-right">{stats.count}</TableCell>
+                        <TableCell className="text-right">{formatValue(stats.mean, m.unit)}</TableCell>
+                        <TableCell className="text-right">{formatValue(stats.rms, m.unit)}</TableCell>
+                        <TableCell className="text-right">{formatValue(stats.max, m.unit)}</TableCell>
+                        <TableCell className="text-right">{formatValue(stats.p50, m.unit)}</TableCell>
+                        <TableCell className="text-right">{formatValue(stats.p95, m.unit)}</TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={6} className="text-right text-muted-foreground">No data</TableCell>
+                    )}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+
+          <div className="text-xs text-muted-foreground text-center">
+            Cross-track is positive right of the route, along-track positive ahead of the planned
+            position, altitude positive above plan and timing positive behind schedule.
+            Percentiles are of absolute values.
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,40 +1,74 @@
-import React, { useState, useEffect } from 'react'
+import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
-import { CheckCircle, XCircle, RefreshCw, AlertTriangle, Info } from 'lucide-react'
+import { CheckCircle, RefreshCw, AlertTriangle, Info, Database } from 'lucide-react'
 import { altitudeService } from '../services/altitudeService'
+import { elevationCache } from '../services/elevationCache'
+import { providerHealth } from '../services/providerHealth'
+import type { ProviderState } from '../services/providerHealth'
+import { useElevationProviders } from '../hooks/use-elevation-providers'
+import { useProviderHealth } from '../hooks/use-provider-health'
 
 interface ServiceStatusProps {
   onClose?: () => void
 }
 
+const STATE_BADGES: Record<ProviderState | 'local', { label: string, className: string }> = {
+  local: { label: 'Local', className: 'bg-blue-100 text-blue-800' },
+  unused: { label: 'Not used yet', className: 'bg-muted text-muted-foreground' },
+  healthy: { label: 'Healthy', className: 'bg-green-100 text-green-800' },
+  degraded: { label: 'Degraded', className: 'bg-amber-100 text-amber-800' },
+  open: { label: 'Paused', className: 'bg-red-100 text-red-800' }
+}
+
 export function ElevationServiceStatus({ onClose }: ServiceStatusProps) {
-  const [status, setStatus] = useState<{ available: string[], unavailable: string[] } | null>(null)
-  const [isLoading, setIsLoading] = useState(false)
+  const [isProbing, setIsProbing] = useState(false)
+  const [cachedCount, setCachedCount] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const providers = useElevationProviders()
+  const health = useProviderHealth()
+
+  useEffect(() => {
+    elevationCache.count().then(setCachedCount).catch(() => setCachedCount(null))
+  }, [])
+
+  // Tick while a provider is paused so its countdown stays current
+  const hasOpenCircuit = health.some(entry => entry.openUntil !== null && entry.openUntil > now)
+  useEffect(() => {
+    if (!hasOpenCircuit) return
+    const intervalId = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(intervalId)
+  }, [hasOpenCircuit])
 
-  const checkServiceStatus = async () => {
-    setIsLoading(true)
+  const probeProviders = async () => {
+    setIsProbing(true)
     try {
-      const serviceStatus = await altitudeService.getServiceStatus()
-      setStatus(serviceStatus)
+      await altitudeService.probeProviders()
     } catch (error) {
-      console.error('Failed to check service status:', error)
-      setStatus({ 
-        available: ['Regional Altitude Estimates (Always available)'], 
-        unavailable: ['Service check failed - network error'] 
-      })
+      console.error('Failed to test elevation providers:', error)
     } finally {
-      setIsLoading(false)
+      setNow(Date.now())
+      setIsProbing(false)
     }
   }
 
-  useEffect(() => {
-    checkServiceStatus()
-  }, [])
+  const clearCache = async () => {
+    try {
+      await elevationCache.clear()
+      setCachedCount(0)
+    } catch (error) {
+      console.error('Failed to clear elevation cache:', error)
+    }
+  }
 
-  const liveAPIsAvailable = status?.available.filter(s => !s.includes('Regional')).length || 0
-  const hasLiveAPIs = liveAPIsAvailable > 0
+  const rows = providers.map(provider => {
+    const entry = providerHealth.get(provider.id)
+    const state: ProviderState | 'local' = provider.lookup ? 'local' : providerHealth.getState(provider.id, now)
+    return { provider, entry, state }
+  })
+  const usable = rows.filter(row => row.state !== 'open').length
+  const errors = health.map(entry => entry.lastError ?? '')
 
   return (
     <Card className="w-full max-w-md">
@@ -49,166 +83,150 @@ export function ElevationServiceStatus({ onClose }: ServiceStatusProps) {
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        {isLoading ? (
-          <div className="flex items-center justify-center py-4">
-            <RefreshCw className="w-5 h-5 animate-spin mr-2" />
-            <span className="text-sm text-muted-foreground">Checking services...</span>
-          </div>
-        ) : status ? (
-          <>
-            {/* Status Summary */}
-            {hasLiveAPIs ? (
-              <div className="bg-green-50 border border-green-200 rounded-lg p-3">
-                <div className="flex items-start">
-                  <CheckCircle className="w-4 h-4 text-green-600 mr-2 mt-0.5" />
-                  <div className="text-sm">
-                    <p className="font-medium text-green-800">Live elevation APIs available</p>
-                    <p className="text-green-700 mt-1">
-                      {liveAPIsAvailable} API{liveAPIsAvailable !== 1 ? 's' : ''} providing real-time elevation data.
-                    </p>
-                  </div>
-                </div>
-              </div>
-            ) : (
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-                <div className="flex items-start">
-                  <Info className="w-4 h-4 text-blue-600 mr-2 mt-0.5" />
-                  <div className="text-sm">
-                    <p className="font-medium text-blue-800">Using regional estimates</p>
-                    <p className="text-blue-700 mt-1">
-                      External APIs blocked by browser security (CORS). Regional estimates provide good accuracy for this area.
-                    </p>
-                  </div>
-                </div>
-              </div>
-            )}
-
-            {/* Available Services */}
-            {status.available.length > 0 && (
-              <div>
-                <h4 className="text-sm font-medium text-green-700 mb-2 flex items-center">
-                  <CheckCircle className="w-4 h-4 mr-1" />
-                  Available Services
-                </h4>
-                <div className="space-y-1">
-                  {status.available.map((service) => (
-                    <Badge 
-                      key={service} 
-                      variant="secondary" 
-                      className={service.includes('Regional') 
-                        ? "bg-blue-100 text-blue-800" 
-                        : "bg-green-100 text-green-800"
-                      }
-                    >
-                      {service}
-                    </Badge>
-                  ))}
-                </div>
+        {/* Status Summary */}
+        {usable > 0 ? (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+            <div className="flex items-start">
+              <CheckCircle className="w-4 h-4 text-green-600 mr-2 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-green-800">Elevation sources available</p>
+                <p className="text-green-700 mt-1">
+                  {usable} source{usable !== 1 ? 's' : ''} in use, fastest healthy sources are tried first.
+                </p>
               </div>
-            )}
-
-            {/* Unavailable Services */}
-            {status.unavailable.length > 0 && (
-              <div>
-                <h4 className="text-sm font-medium text-red-700 mb-2 flex items-center">
-                  <XCircle className="w-4 h-4 mr-1" />
-                  Blocked/Unavailable Services
-                </h4>
-                <div className="space-y-1">
-                  {status.unavailable.map((service) => (
-                    <Badge key={service} variant="secondary" className="bg-red-100 text-red-800">
-                      {service}
-                    </Badge>
-                  ))}
-                </div>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <div className="flex items-start">
+              <Info className="w-4 h-4 text-blue-600 mr-2 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-blue-800">Using regional estimates</p>
+                <p className="text-blue-700 mt-1">
+                  All elevation sources are paused after repeated failures and will be retried automatically.
+                </p>
               </div>
-            )}
-
-            {/* API Key Information */}
-            {(status.unavailable.some(s => s.includes('API key required')) || 
-              status.unavailable.some(s => s.includes('Demo API key') || s.includes('expired'))) && (
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-                <div className="flex items-start">
-                  <Info className="w-4 h-4 text-blue-600 mr-2 mt-0.5" />
-                  <div className="text-sm">
-                    <p className="font-medium text-blue-800">API Key Required</p>
-                    <p className="text-blue-700 mt-1">
-                      Some elevation services (like IGN France) require API keys for access. The app uses regional estimates when APIs are unavailable.
-                    </p>
-                    <p className="text-blue-700 mt-1 text-xs">
-                      For production use, you can register for free API keys from elevation service providers.
-                    </p>
-                  </div>
-                </div>
+            </div>
+          </div>
+        )}
+
+        {/* Live provider statistics */}
+        <div className="space-y-2">
+          {rows.map(({ provider, entry, state }) => (
+            <div key={provider.id} className="text-sm border rounded-lg p-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{provider.label}</span>
+                <Badge variant="secondary" className={STATE_BADGES[state].className}>
+                  {STATE_BADGES[state].label}
+                  {state === 'open' && entry.openUntil !== null && ` · ${Math.ceil((entry.openUntil - now) / 1000)}s`}
+                </Badge>
               </div>
-            )}
-
-            {/* CORS Information */}
-            {status.unavailable.some(s => s.includes('CORS')) && (
-              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
-                <div className="flex items-start">
-                  <AlertTriangle className="w-4 h-4 text-amber-600 mr-2 mt-0.5" />
-                  <div className="text-sm">
-                    <p className="font-medium text-amber-800">CORS Security Notice</p>
-                    <p className="text-amber-700 mt-1">
-                      External elevation APIs are blocked by browser security policies (CORS). This is normal and expected behavior for web applications.
-                    </p>
-                    <p className="text-amber-700 mt-1 text-xs">
-                      The app automatically falls back to regional altitude estimates which provide good accuracy for the Toulouse area.
-                    </p>
-                  </div>
+              {state !== 'local' && entry.successes + entry.failures > 0 && (
+                <div className="text-xs text-muted-foreground mt-1">
+                  {entry.successes} ok · {entry.failures} failed
+                  {entry.averageLatency !== null && ` · ${Math.round(entry.averageLatency)} ms per point avg`}
                 </div>
+              )}
+              {state !== 'local' && state !== 'healthy' && entry.lastError && (
+                <div className="text-xs text-red-700 mt-1">{entry.lastError}</div>
+              )}
+            </div>
+          ))}
+          <div className="text-sm border rounded-lg p-2 flex items-center justify-between">
+            <span className="font-medium">Regional terrain model</span>
+            <Badge variant="secondary" className="bg-blue-100 text-blue-800">Always available</Badge>
+          </div>
+        </div>
+
+        {/* API Key Information */}
+        {errors.some(error => error.includes('authentication')) && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <div className="flex items-start">
+              <Info className="w-4 h-4 text-blue-600 mr-2 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-blue-800">API Key Required</p>
+                <p className="text-blue-700 mt-1">
+                  Some elevation services (like IGN France) require API keys for access. The app uses regional estimates when APIs are unavailable.
+                </p>
+                <p className="text-blue-700 mt-1 text-xs">
+                  For production use, you can register for free API keys from elevation service providers.
+                </p>
               </div>
-            )}
-
-            {/* Network Error Information */}
-            {status.unavailable.some(s => s.includes('Network') || s.includes('Failed to fetch')) && (
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-                <div className="flex items-start">
-                  <Info className="w-4 h-4 text-blue-600 mr-2 mt-0.5" />
-                  <div className="text-sm">
-                    <p className="font-medium text-blue-800">Network Information</p>
-                    <p className="text-blue-700 mt-1">
-                      Some APIs may be temporarily unavailable or experiencing network issues. The app includes automatic retry logic and regional fallbacks.
-                    </p>
-                  </div>
-                </div>
+            </div>
+          </div>
+        )}
+
+        {/* CORS Information */}
+        {errors.some(error => error.includes('CORS')) && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <div className="flex items-start">
+              <AlertTriangle className="w-4 h-4 text-amber-600 mr-2 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-amber-800">CORS Security Notice</p>
+                <p className="text-amber-700 mt-1">
+                  External elevation APIs are blocked by browser security policies (CORS). This is normal and expected behavior for web applications.
+                </p>
+                <p className="text-amber-700 mt-1 text-xs">
+                  Blocked services are paused automatically and other sources or regional estimates are used instead.
+                </p>
               </div>
-            )}
-
-            <div className="flex justify-between items-center pt-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={checkServiceStatus}
-                disabled={isLoading}
-              >
-                <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
-                Refresh
-              </Button>
-              
-              <div className="text-xs text-muted-foreground">
-                {hasLiveAPIs 
-                  ? `${liveAPIsAvailable} live API${liveAPIsAvailable !== 1 ? 's' : ''} + regional fallback`
-                  : 'Regional estimates only'
-                }
+            </div>
+          </div>
+        )}
+
+        {/* Network Error Information */}
+        {errors.some(error => error.includes('Network')) && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <div className="flex items-start">
+              <Info className="w-4 h-4 text-blue-600 mr-2 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-blue-800">Network Information</p>
+                <p className="text-blue-700 mt-1">
+                  Some APIs may be temporarily unavailable or experiencing network issues. The app includes automatic retry logic and regional fallbacks.
+                </p>
               </div>
             </div>
-          </>
-        ) : (
-          <div className="text-center py-4">
-            <p className="text-sm text-muted-foreground">Failed to check service status</p>
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={checkServiceStatus}
-              className="mt-2"
+          </div>
+        )}
+
+        {/* Elevation Cache */}
+        {cachedCount !== null && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center text-muted-foreground">
+              <Database className="w-4 h-4 mr-1" />
+              {cachedCount.toLocaleString()} cached elevation{cachedCount !== 1 ? 's' : ''}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={clearCache}
+              disabled={cachedCount === 0}
+              className="h-6 px-2 text-xs"
             >
-              Retry
+              Clear cache
             </Button>
           </div>
         )}
+
+        <div className="flex justify-between items-center pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={probeProviders}
+            disabled={isProbing}
+          >
+            <RefreshCw className={`w-4 h-4 mr-1 ${isProbing ? 'animate-spin' : ''}`} />
+            {isProbing ? 'Testing...' : 'Test now'}
+          </Button>
+
+          <div className="text-xs text-muted-foreground">
+            {usable > 0
+              ? `${usable} source${usable !== 1 ? 's' : ''} + regional fallback`
+              : 'Regional estimates only'
+            }
+          </div>
+        </div>
       </CardContent>
     </Card>
   )
-}
\ No newline at end of file
+}
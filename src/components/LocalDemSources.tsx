@@ -0,0 +1,167 @@
+import { useState, useEffect, useRef } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { HardDrive, Trash2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { srtmTiles } from '../services/srtmTiles'
+import type { SrtmTileInfo } from '../services/srtmTiles'
+import { geotiffRasters, formatResolution } from '../services/geotiffRasters'
+import type { RasterInfo } from '../services/geotiffRasters'
+
+const GEOTIFF_EXTENSION = /\.tiff?$/i
+
+export function LocalDemSources() {
+  const [tiles, setTiles] = useState<SrtmTileInfo[]>([])
+  const [rasters, setRasters] = useState<RasterInfo[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Load tiles and rasters stored in previous sessions
+  useEffect(() => {
+    srtmTiles.load().then(() => setTiles(srtmTiles.list()))
+    geotiffRasters.load().then(() => setRasters(geotiffRasters.list()))
+  }, [])
+
+  const importFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    // Reset the input value to allow re-importing the same file
+    event.target.value = ''
+    if (files.length === 0) return
+
+    const geotiffFiles = files.filter(file => GEOTIFF_EXTENSION.test(file.name))
+    const srtmFiles = files.filter(file => !GEOTIFF_EXTENSION.test(file.name))
+
+    setIsImporting(true)
+    try {
+      if (srtmFiles.length > 0) {
+        const { imported, skipped } = await srtmTiles.importFiles(srtmFiles)
+        setTiles(srtmTiles.list())
+
+        if (imported.length > 0) {
+          toast.success(`Imported ${imported.length} SRTM tile${imported.length !== 1 ? 's' : ''}`, {
+            description: imported.map(tile => tile.name).join(', ')
+          })
+        }
+        if (skipped.length > 0) {
+          toast.warning(`Skipped ${skipped.length} file${skipped.length !== 1 ? 's' : ''}`, {
+            description: 'Expected SRTM1/SRTM3 .hgt tiles named like N43E001.hgt'
+          })
+        }
+      }
+
+      if (geotiffFiles.length > 0) {
+        const { imported, skipped } = await geotiffRasters.importFiles(geotiffFiles)
+        setRasters(geotiffRasters.list())
+
+        if (imported.length > 0) {
+          toast.success(`Imported ${imported.length} GeoTIFF raster${imported.length !== 1 ? 's' : ''}`, {
+            description: imported.map(raster => `${raster.name} (${formatResolution(raster.resolutionMeters)})`).join(', ')
+          })
+        }
+        skipped.forEach(({ name, reason }) => {
+          toast.warning(`Skipped ${name}`, { description: reason })
+        })
+      }
+    } catch (error) {
+      console.error('Failed to import DEM files:', error)
+      toast.error('Failed to import DEM files')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const removeTile = async (name: string) => {
+    try {
+      await srtmTiles.remove(name)
+      setTiles(srtmTiles.list())
+    } catch (error) {
+      console.error('Failed to remove SRTM tile:', error)
+      toast.error(`Failed to remove ${name}`)
+    }
+  }
+
+  const removeRaster = async (raster: RasterInfo) => {
+    try {
+      await geotiffRasters.remove(raster.id)
+      setRasters(geotiffRasters.list())
+    } catch (error) {
+      console.error('Failed to remove GeoTIFF raster:', error)
+      toast.error(`Failed to remove ${raster.name}`)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs flex items-center">
+          <HardDrive className="w-3 h-3 mr-1" />
+          Offline DEM
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="h-6 px-2 text-xs"
+        >
+          <Upload className="w-3 h-3 mr-1" />
+          {isImporting ? 'Importing...' : 'Load DEM'}
+        </Button>
+      </div>
+
+      {rasters.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {rasters.map(raster => (
+            <Badge key={raster.id} variant="secondary" className="text-xs pr-1 max-w-full">
+              <span className="truncate">{raster.name}</span>
+              <span className="ml-1 text-muted-foreground">{formatResolution(raster.resolutionMeters)}</span>
+              <button
+                type="button"
+                onClick={() => removeRaster(raster)}
+                className="ml-1 hover:text-destructive"
+                aria-label={`Remove ${raster.name}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {tiles.length === 0 ? (
+        rasters.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Load SRTM .hgt tiles (or a .zip) or GeoTIFF DEMs for elevation without network access
+          </p>
+        )
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {tiles.map(tile => (
+            <Badge key={tile.name} variant="secondary" className="text-xs pr-1">
+              {tile.name}
+              <span className="ml-1 text-muted-foreground">{tile.size === 3601 ? '1"' : '3"'}</span>
+              <button
+                type="button"
+                onClick={() => removeTile(tile.name)}
+                className="ml-1 hover:text-destructive"
+                aria-label={`Remove ${tile.name}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".hgt,.zip,.tif,.tiff"
+        multiple
+        onChange={importFiles}
+        className="hidden"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+import { useState, useRef } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Eye, EyeOff, Route, Trash2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { TRACK_LOG_ACCEPT, importRecordedTrack } from '../services/trajectoryFiles'
+import { distanceBetween } from '../services/formats/common'
+import type { RecordedTrack } from '../types/trajectory'
+
+interface RecordedTracksProps {
+  tracks: RecordedTrack[]
+  onAdd: (track: RecordedTrack) => void
+  onToggle: (id: string) => void
+  onRemove: (id: string) => void
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}min` : `${minutes}min`
+}
+
+function describeTrack(track: RecordedTrack): string {
+  const distance = track.points.slice(1).reduce((sum, point, index) =>
+    sum + distanceBetween(track.points[index], point), 0)
+  const first = track.points[0]?.time
+  const last = track.points[track.points.length - 1]?.time
+  const duration = first !== null && first !== undefined && last !== null && last !== undefined
+    ? ` · ${formatDuration(last - first)}`
+    : ''
+  return `${track.points.length} fixes · ${(distance / 1000).toFixed(1)}km${duration}`
+}
+
+export function RecordedTracks({ tracks, onAdd, onToggle, onRemove }: RecordedTracksProps) {
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const importFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    // Reset the input value to allow re-importing the same file
+    event.target.value = ''
+    if (files.length === 0) return
+
+    setIsImporting(true)
+    for (const file of files) {
+      try {
+        const track = await importRecordedTrack(file)
+        onAdd(track)
+        toast.success(`Loaded ${track.format} track ${track.name}`, {
+          description: describeTrack(track)
+        })
+      } catch (error) {
+        console.error('Failed to load recorded track:', error)
+        toast.error(`Failed to load ${file.name}`, {
+          description: error instanceof Error ? error.message : undefined
+        })
+      }
+    }
+    setIsImporting(false)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground flex items-center">
+          <Route className="w-4 h-4 mr-2" />
+          Recorded Tracks
+        </h3>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="h-6 px-2 text-xs"
+        >
+          <Upload className="w-3 h-3 mr-1" />
+          {isImporting ? 'Loading...' : 'Load log'}
+        </Button>
+      </div>
+
+      {tracks.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Load NMEA, IGC or TCX logs to show what was actually flown or driven
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {tracks.map(track => (
+            <div key={track.id} className="flex items-center justify-between gap-2 text-xs">
+              <div className={`min-w-0 ${track.visible ? '' : 'opacity-50'}`}>
+                <div className="flex items-center gap-1">
+                  <Badge variant="secondary" className="text-[10px] px-1">{track.format}</Badge>
+                  <span className="truncate font-medium">{track.name}</span>
+                </div>
+                <div className="text-muted-foreground">{describeTrack(track)}</div>
+              </div>
+              <div className="flex shrink-0">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onToggle(track.id)}
+                  className="h-6 w-6 p-0"
+                  aria-label={track.visible ? `Hide ${track.name}` : `Show ${track.name}`}
+                >
+                  {track.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemove(track.id)}
+                  className="h-6 w-6 p-0"
+                  aria-label={`Remove ${track.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={TRACK_LOG_ACCEPT}
+        multiple
+        onChange={importFiles}
+        className="hidden"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { Button } from './ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { History, Redo2, Undo2 } from 'lucide-react'
+import type { RouteHistoryEntry } from '../hooks/use-route-history'
+
+interface RouteHistoryProps {
+  entries: RouteHistoryEntry[]
+  index: number
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (index: number) => void
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+export function RouteHistory({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }: RouteHistoryProps) {
+  return (
+    <div className="flex items-center">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onUndo}
+        disabled={!canUndo}
+        className="h-8 w-8 p-0"
+        title={canUndo ? `Undo ${entries[index].label} (Ctrl+Z)` : 'Nothing to undo'}
+        aria-label="Undo"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onRedo}
+        disabled={!canRedo}
+        className="h-8 w-8 p-0"
+        title={canRedo ? `Redo ${entries[index + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        aria-label="Redo"
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Edit history">
+            <History className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-2">
+          <h4 className="text-sm font-medium px-2 pb-2">Edit History</h4>
+          <div className="max-h-80 overflow-y-auto space-y-0.5">
+            {/* Newest first; undone edits stay listed until a new edit replaces them */}
+            {entries.map((entry, entryIndex) => ({ entry, entryIndex })).reverse().map(({ entry, entryIndex }) => (
+              <button
+                key={entryIndex}
+                type="button"
+                onClick={() => onJump(entryIndex)}
+                className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left text-xs ${
+                  entryIndex === index
+                    ? 'bg-primary/10 font-medium text-foreground'
+                    : entryIndex > index
+                      ? 'text-muted-foreground line-through hover:bg-muted/50'
+                      : 'text-foreground hover:bg-muted/50'
+                }`}
+              >
+                <span className="truncate">{entry.label}</span>
+                {entry.time > 0 && (
+                  <span className="shrink-0 text-muted-foreground">{formatTime(entry.time)}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
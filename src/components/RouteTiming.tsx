@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Clock, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { RATE_TOLERANCE, retimeRoute } from '../services/routeTiming'
+import type { TimingSettings } from '../services/routeTiming'
+import { plural } from '../services/formats/common'
+import type { RoutePoint } from '../types/trajectory'
+
+interface RouteTimingProps {
+  points: RoutePoint[]
+  settings: TimingSettings
+  onSettingsChange: (settings: TimingSettings) => void
+  onChange: (points: RoutePoint[], label: string) => void
+}
+
+const FIELDS: Array<{ key: keyof TimingSettings, label: string, min: number }> = [
+  { key: 'groundSpeed', label: 'Ground speed (m/s)', min: 0.1 },
+  { key: 'climbRate', label: 'Climb rate (m/s)', min: 0.1 },
+  { key: 'descentRate', label: 'Descent rate (m/s)', min: 0.1 },
+  { key: 'dwellTime', label: 'Dwell (s)', min: 0 }
+]
+
+export function RouteTiming({ points, settings, onSettingsChange, onChange }: RouteTimingProps) {
+  // Text being typed, so a value can pass through invalid states such as "0." on the
+  // way to a valid one
+  const [drafts, setDrafts] = useState<Partial<Record<keyof TimingSettings, string>>>({})
+  const pinnedCount = points.filter(point => point.timePinned).length
+
+  const changeField = (key: keyof TimingSettings, min: number, text: string) => {
+    setDrafts(prev => ({ ...prev, [key]: text }))
+    const value = Number(text)
+    if (text.trim() !== '' && Number.isFinite(value) && value >= min) {
+      onSettingsChange({ ...settings, [key]: value })
+    }
+  }
+
+  const recompute = () => {
+    try {
+      const { points: retimed, legs } = retimeRoute(points, settings)
+      if (retimed === points) {
+        toast.info('Times already match the timing settings')
+        return
+      }
+      onChange(retimed, 'Recompute times')
+
+      const rushed = legs.filter(leg => leg.solved && leg.groundSpeed > leg.plannedSpeed * RATE_TOLERANCE)
+      const steep = legs.filter(leg => leg.tooSteep)
+      const total = retimed[retimed.length - 1].timestamp - retimed[0].timestamp
+      if (rushed.length > 0) {
+        const fastest = Math.max(...rushed.map(leg => leg.groundSpeed))
+        toast.warning(`${plural(rushed.length, 'leg')} must be flown faster than set to meet pinned times`, {
+          description: `Up to ${fastest.toFixed(1)} m/s; the route takes ${Math.round(total)}s`
+        })
+      }
+      if (steep.length > 0) {
+        const steepest = Math.max(...steep.map(leg => Math.abs(leg.verticalSpeed)))
+        toast.warning(`${plural(steep.length, 'leg')} must climb or descend faster than the set rates to meet pinned times`, {
+          description: `Up to ${steepest.toFixed(1)} m/s vertically; the route takes ${Math.round(total)}s`
+        })
+      }
+      if (rushed.length === 0 && steep.length === 0) {
+        toast.success('Times recomputed', {
+          description: `The route takes ${Math.round(total)}s`
+        })
+      }
+    } catch (error) {
+      console.error('Failed to recompute times:', error)
+      toast.error('Failed to recompute times', {
+        description: error instanceof Error ? error.message : undefined
+      })
+    }
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-foreground mb-3 flex items-center">
+        <Clock className="w-4 h-4 mr-2" />
+        Timing
+      </h3>
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          {FIELDS.map(({ key, label, min }) => (
+            <div key={key}>
+              <Label htmlFor={`timing-${key}`} className="text-xs">{label}</Label>
+              <Input
+                id={`timing-${key}`}
+                type="number"
+                min={min}
+                step="any"
+                value={drafts[key] ?? settings[key]}
+                onChange={(e) => changeField(key, min, e.target.value)}
+                onBlur={() => setDrafts(prev => ({ ...prev, [key]: undefined }))}
+                className="h-8"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            {pinnedCount > 0 ? `${plural(pinnedCount, 'pinned time')} kept` : 'No pinned times'}
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={recompute}
+            disabled={points.length < 2}
+            className="h-6 px-2 text-xs"
+          >
+            <RefreshCw className="w-3 h-3 mr-1" />
+            Recompute times
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Copy, FolderOpen, Pencil, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { savedRoutes } from '../services/savedRoutes'
+import type { SavedRoute } from '../services/savedRoutes'
+import { useSavedRoutes } from '../hooks/use-saved-routes'
+import { plural } from '../services/formats/common'
+
+interface SavedRoutesProps {
+  activeId: string | null
+  onOpen: (route: SavedRoute) => void
+}
+
+export function SavedRoutes({ activeId, onOpen }: SavedRoutesProps) {
+  const routes = useSavedRoutes()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  const createRoute = async () => {
+    try {
+      onOpen(await savedRoutes.create(`Route ${routes.length + 1}`))
+    } catch (error) {
+      console.error('Failed to create route:', error)
+      toast.error('Failed to create route')
+    }
+  }
+
+  const duplicateRoute = async (route: SavedRoute) => {
+    try {
+      onOpen(await savedRoutes.duplicate(route.id))
+    } catch (error) {
+      console.error('Failed to duplicate route:', error)
+      toast.error(`Failed to duplicate ${route.name}`)
+    }
+  }
+
+  const startRename = (route: SavedRoute) => {
+    setEditingId(route.id)
+    setEditingName(route.name)
+  }
+
+  const finishRename = async () => {
+    const id = editingId
+    const name = editingName.trim()
+    setEditingId(null)
+    if (!id || !name) return
+    try {
+      await savedRoutes.rename(id, name)
+    } catch (error) {
+      console.error('Failed to rename route:', error)
+      toast.error('Failed to rename route')
+    }
+  }
+
+  // The workspace always has an open route, so deleting the open one switches to the
+  // next, or to a new empty route
+  const deleteRoute = async (route: SavedRoute) => {
+    try {
+      await savedRoutes.remove(route.id)
+      if (route.id === activeId) {
+        const next = routes.find(r => r.id !== route.id)
+        onOpen(next ?? await savedRoutes.create('Route 1'))
+      }
+      toast.success(`Deleted ${route.name}`, {
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            savedRoutes.restore(route).catch(error => {
+              console.error('Failed to restore route:', error)
+              toast.error(`Failed to restore ${route.name}`)
+            })
+          }
+        }
+      })
+    } catch (error) {
+      console.error('Failed to delete route:', error)
+      toast.error(`Failed to delete ${route.name}`)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground flex items-center">
+          <FolderOpen className="w-4 h-4 mr-2" />
+          Routes
+        </h3>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={createRoute}
+          className="h-6 px-2 text-xs"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          New
+        </Button>
+      </div>
+
+      <div className="space-y-0.5 max-h-36 overflow-y-auto">
+        {routes.map(route => (
+          <div
+            key={route.id}
+            className={`flex items-center justify-between gap-2 px-2 py-1 rounded text-xs ${
+              route.id === activeId ? 'bg-primary/10' : 'hover:bg-muted/50'
+            }`}
+          >
+            {editingId === route.id ? (
+              <Input
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename()
+                  if (e.key === 'Escape') setEditingId(null)
+                }}
+                className="h-6 text-xs"
+                aria-label="Route name"
+                autoFocus
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => route.id !== activeId && onOpen(route)}
+                onDoubleClick={() => startRename(route)}
+                className="min-w-0 flex-1 text-left"
+              >
+                <div className={`truncate ${route.id === activeId ? 'font-medium text-foreground' : 'text-foreground'}`}>
+                  {route.name}
+                </div>
+                <div className="text-muted-foreground">
+                  {plural(route.points.length, 'point')} · {new Date(route.updatedAt).toLocaleDateString()}
+                </div>
+              </button>
+            )}
+            <div className="flex shrink-0">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => startRename(route)}
+                className="h-6 w-6 p-0"
+                aria-label={`Rename ${route.name}`}
+              >
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => duplicateRoute(route)}
+                className="h-6 w-6 p-0"
+                aria-label={`Duplicate ${route.name}`}
+              >
+                <Copy className="w-3 h-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteRoute(route)}
+                className="h-6 w-6 p-0"
+                aria-label={`Delete ${route.name}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
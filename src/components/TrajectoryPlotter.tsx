@@ -1,176 +1,79 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
 import { Button } from './ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Progress } from './ui/progress'
-import { BarChart3, X, Mountain, Download } from 'lucide-react'
-import { altitudeService } from '../services/altitudeService'
+import { BarChart3, X, Mountain, Download, Route } from 'lucide-react'
+import { describeProvenance } from '../services/altitudeService'
+import type { AltitudeProfile } from '../services/altitudeService'
+import { altitudeProfiler } from '../services/altitudeProfiler'
+import { TRAJECTORY_FORMAT_VERSION, downloadFile, downloadTrajectory } from '../services/trajectoryFiles'
+import { exportProfileCsv } from '../services/formats/csv'
+import type { RecordedTrack, RoutePoint } from '../types/trajectory'
+import { TERRAIN_MODEL_ACCURACY } from '../services/terrainModel'
 import { toast } from 'sonner'
-
-interface RoutePoint {
-  id: string
-  lat: number
-  lng: number
-  altitude: number
-  timestamp: number
-  name: string
-}
+import { DeviationReport } from './DeviationReport'
 
 interface TrajectoryPlotterProps {
   routePoints: RoutePoint[]
   elevationDataSource?: string
+  recordedTracks?: RecordedTrack[]
 }
 
-// Helper function for distance calculation
-function calculateDistanceBetweenPoints(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const earthRadius = 6371000 // Earth's radius in meters
-  const deltaLat = (lat2 - lat1) * Math.PI / 180
-  const deltaLng = (lng2 - lng1) * Math.PI / 180
-  const a = Math.sin(deltaLat/2) * Math.sin(deltaLat/2) +
-            Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-            Math.sin(deltaLng/2) * Math.sin(deltaLng/2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a))
-  return earthRadius * c
-}
-
-// Helper function for regional altitude estimation
-function getRegionalAltitudeEstimate(lat: number, lng: number): number {
-  // Toulouse region - more precise estimates
-  if (lat >= 43.4 && lat <= 43.8 && lng >= 1.2 && lng <= 1.7) {
-    const distanceFromCenter = Math.sqrt(Math.pow(lat - 43.6047, 2) + Math.pow(lng - 1.4442, 2))
-    return Math.round(150 + distanceFromCenter * 100)
-  }
-  
-  // France mainland
-  if (lat >= 41.3 && lat <= 51.1 && lng >= -5.2 && lng <= 9.6) {
-    // Alps region
-    if (lat >= 44.0 && lat <= 46.5 && lng >= 5.5 && lng <= 7.5) {
-      return Math.round(800 + Math.random() * 400)
-    }
-    // Pyrenees region
-    if (lat >= 42.5 && lat <= 43.5 && lng >= -2.0 && lng <= 3.0) {
-      return Math.round(600 + Math.random() * 300)
-    }
-    // General France
-    return Math.round(200 + Math.random() * 100)
-  }
-  
-  // Global fallback
-  return Math.round(150 + Math.random() * 100)
-}
-
-export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }: TrajectoryPlotterProps) {
+export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto', recordedTracks = [] }: TrajectoryPlotterProps) {
   const [isOpen, setIsOpen] = useState(false)
-  const [detailedProfile, setDetailedProfile] = useState<any>(null)
+  const [detailedProfile, setDetailedProfile] = useState<AltitudeProfile | null>(null)
   const [isGeneratingProfile, setIsGeneratingProfile] = useState(false)
-  const [profileProgress, setProfileProgress] = useState(0)
-
-  // Fallback profile generation using regional estimates
-  const generateFallbackProfile = useCallback(async (points: RoutePoint[]) => {
-    const waypoints = points.map(p => ({ lat: p.lat, lng: p.lng }))
-    const profilePoints = []
-    let totalDistance = 0
-    let elevationGain = 0
-    let elevationLoss = 0
-    let minAltitude = Infinity
-    let maxAltitude = -Infinity
-
-    for (let i = 0; i < waypoints.length - 1; i++) {
-      const start = waypoints[i]
-      const end = waypoints[i + 1]
-      
-      // Simple interpolation between points (every 50m instead of 5m for fallback)
-      const distance = calculateDistanceBetweenPoints(start.lat, start.lng, end.lat, end.lng)
-      const numPoints = Math.max(2, Math.ceil(distance / 50)) // 50m spacing for fallback
-      
-      for (let j = 0; j <= numPoints; j++) {
-        const ratio = j / numPoints
-        const lat = start.lat + (end.lat - start.lat) * ratio
-        const lng = start.lng + (end.lng - start.lng) * ratio
-        
-        // Use regional default altitude
-        const altitude = getRegionalAltitudeEstimate(lat, lng)
-        
-        const point = {
-          lat,
-          lng,
-          altitude,
-          distance: totalDistance
-        }
-        
-        if (profilePoints.length > 0) {
-          const prevPoint = profilePoints[profilePoints.length - 1]
-          const segmentDistance = calculateDistanceBetweenPoints(
-            prevPoint.lat, prevPoint.lng, 
-            lat, lng
-          )
-          totalDistance += segmentDistance
-          point.distance = totalDistance
-          
-          const elevationDiff = altitude - prevPoint.altitude
-          if (elevationDiff > 0) {
-            elevationGain += elevationDiff
-          } else {
-            elevationLoss += Math.abs(elevationDiff)
-          }
-        }
-        
-        minAltitude = Math.min(minAltitude, altitude)
-        maxAltitude = Math.max(maxAltitude, altitude)
-        
-        profilePoints.push(point)
-      }
-    }
-
-    return {
-      points: profilePoints,
-      totalDistance,
-      elevationGain: Math.round(elevationGain),
-      elevationLoss: Math.round(elevationLoss),
-      minAltitude: minAltitude === Infinity ? 0 : minAltitude,
-      maxAltitude: maxAltitude === -Infinity ? 0 : maxAltitude
-    }
-  }, [])
+  const [profileProgress, setProfileProgress] = useState({ done: 0, total: 0 })
+  const [isProfileCancelled, setIsProfileCancelled] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   const generateDetailedProfile = useCallback(async () => {
     if (routePoints.length < 2) return
 
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
     setIsGeneratingProfile(true)
-    setProfileProgress(0)
+    setIsProfileCancelled(false)
+    setProfileProgress({ done: 0, total: 0 })
 
-    try {
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setProfileProgress(prev => Math.min(prev + 10, 90))
-      }, 300)
+    const waypoints = routePoints.map(p => ({ lat: p.lat, lng: p.lng }))
 
-      const waypoints = routePoints.map(p => ({ lat: p.lat, lng: p.lng }))
-      
-      // Add timeout and better error handling
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Profile generation timeout')), 60000) // 60 second timeout
+    try {
+      const profile = await altitudeProfiler.getDetailedAltitudeProfile(waypoints, elevationDataSource, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProfileProgress({ done, total })
       })
       
-      const profilePromise = altitudeService.getDetailedAltitudeProfile(waypoints)
-      
-      const profile = await Promise.race([profilePromise, timeoutPromise]) as any
-      
-      clearInterval(progressInterval)
-      setProfileProgress(100)
       setDetailedProfile(profile)
       
-      toast.success(`Generated ${profile.points.length} altitude points with 5m resolution`)
+      if (profile.estimatedPoints > 0) {
+        toast.warning(`Generated ${profile.points.length} altitude points with 5m resolution`, {
+          description: `${profile.estimatedPoints} points use regional terrain estimates`
+        })
+      } else {
+        toast.success(`Generated ${profile.points.length} altitude points with 5m resolution`)
+      }
       
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Superseded requests were dropped on purpose, not cancelled by the user
+        if (abortControllerRef.current === controller) {
+          setIsProfileCancelled(true)
+          toast.info('Altitude profile generation cancelled')
+        }
+        return
+      }
+
       console.error('Failed to generate altitude profile:', error)
       
       // Provide more specific error messages
       let errorMessage = 'Failed to generate detailed altitude profile'
       if (error instanceof Error) {
-        if (error.message.includes('timeout')) {
-          errorMessage = 'Profile generation timed out. Try with fewer waypoints or check your connection.'
-        } else if (error.message.includes('Network') || error.message.includes('fetch')) {
+        if (error.message.includes('Network') || error.message.includes('fetch')) {
           errorMessage = 'Network error. Using regional altitude estimates instead.'
         } else if (error.message.includes('CORS')) {
           errorMessage = 'External APIs blocked by browser security. Using regional estimates.'
@@ -181,7 +84,8 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
       
       // Generate a fallback profile using regional estimates
       try {
-        const fallbackProfile = await generateFallbackProfile(routePoints)
+        const fallbackProfile = await altitudeProfiler.getDetailedAltitudeProfile(waypoints, 'regional')
+        if (abortControllerRef.current !== controller) return
         setDetailedProfile(fallbackProfile)
         toast.info('Generated profile using regional altitude estimates')
       } catch (fallbackError) {
@@ -189,17 +93,48 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
       }
       
     } finally {
-      setIsGeneratingProfile(false)
-      setTimeout(() => setProfileProgress(0), 1000)
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setIsGeneratingProfile(false)
+      }
     }
-  }, [routePoints, generateFallbackProfile])
+  }, [routePoints, elevationDataSource])
+
+  const cancelDetailedProfile = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  // Stop outstanding requests when the dialog closes
+  const handleOpenChange = useCallback((open: boolean) => {
+    if (!open) {
+      abortControllerRef.current?.abort()
+    } else {
+      setIsProfileCancelled(false)
+    }
+    setIsOpen(open)
+  }, [])
+
+  // ...and when the plotter unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  // The 5m profile follows the terrain under the route, so it is stale as soon as a
+  // waypoint is added, removed or moved (waypoint altitudes don't affect it)
+  const routeGeometry = routePoints.map(p => `${p.lat},${p.lng}`).join(';')
+  useEffect(() => {
+    const controller = abortControllerRef.current
+    abortControllerRef.current = null
+    controller?.abort()
+    setDetailedProfile(null)
+    setIsGeneratingProfile(false)
+    setIsProfileCancelled(false)
+  }, [routeGeometry])
 
   // Auto-generate 5m altitude profile when dialog opens
   useEffect(() => {
-    if (isOpen && routePoints.length >= 2 && !detailedProfile && !isGeneratingProfile) {
+    if (isOpen && routePoints.length >= 2 && !detailedProfile && !isGeneratingProfile && !isProfileCancelled) {
       generateDetailedProfile()
     }
-  }, [isOpen, routePoints.length, detailedProfile, isGeneratingProfile, generateDetailedProfile])
+  }, [isOpen, routePoints.length, detailedProfile, isGeneratingProfile, isProfileCancelled, generateDetailedProfile])
 
   const downloadDetailedProfile = () => {
     if (!detailedProfile) return
@@ -212,22 +147,33 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
         minAltitude: detailedProfile.minAltitude,
         maxAltitude: detailedProfile.maxAltitude,
         pointCount: detailedProfile.points.length,
+        estimatedPointCount: detailedProfile.estimatedPoints,
         resolution: '5m',
-        source: 'Multiple elevation APIs',
+        sources: detailedProfile.sources,
         generatedAt: new Date().toISOString()
       },
       points: detailedProfile.points
     }
 
-    const blob = new Blob([JSON.stringify(profileData, null, 2)], {
-      type: 'application/json'
-    })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `altitude_profile_5m_${Date.now()}.json`
-    a.click()
-    URL.revokeObjectURL(url)
+    downloadFile(JSON.stringify(profileData, null, 2), `altitude_profile_5m_${Date.now()}.json`, 'application/json')
+  }
+
+  const downloadDetailedProfileCsv = () => {
+    if (!detailedProfile) return
+    downloadFile(exportProfileCsv(detailedProfile), `altitude_profile_5m_${Date.now()}.csv`, 'text/csv')
+  }
+
+  // Route, waypoints and the 5m profile in one FeatureCollection for GIS tools
+  const downloadDetailedProfileGeoJson = () => {
+    if (!detailedProfile) return
+
+    downloadTrajectory({
+      version: TRAJECTORY_FORMAT_VERSION,
+      points: routePoints,
+      totalDistance: detailedProfile.totalDistance,
+      totalTime: routePoints[routePoints.length - 1].timestamp,
+      createdAt: new Date().toISOString()
+    }, 'geojson', { profile: detailedProfile })
   }
 
   if (routePoints.length < 2) {
@@ -240,6 +186,10 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
     )
   }
 
+  const profilePercent = profileProgress.total > 0
+    ? Math.round(profileProgress.done / profileProgress.total * 100)
+    : 0
+
   // Calculate trajectory statistics
   const altitudes = routePoints.map(p => p.altitude)
   const latitudes = routePoints.map(p => p.lat)
@@ -383,10 +333,12 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
             strokeLinejoin="round"
           />
           
-          {/* Points */}
+          {/* Points, colored by altitude source */}
           {routePoints.map((point, index) => {
             const x = normalizeX(index)
             const y = normalizeY(point.altitude)
+            const source = point.altitudeSource
+            const fill = !source ? '#9CA3AF' : source.estimated ? '#D97706' : '#2563EB'
             
             return (
               <circle
@@ -394,10 +346,14 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
                 cx={x}
                 cy={y}
                 r="4"
-                fill="#2563EB"
+                fill={fill}
                 stroke="white"
                 strokeWidth="2"
-              />
+              >
+                <title>
+                  {`${point.name}: ${point.altitude}m — ${source ? `${source.sourceLabel} (${describeProvenance(source)})` : 'manual or default value'}`}
+                </title>
+              </circle>
             )
           })}
           
@@ -422,7 +378,7 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
   }
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button className="w-full">
           <BarChart3 className="w-4 h-4 mr-2" />
@@ -435,7 +391,7 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setIsOpen(false)}
+            onClick={() => handleOpenChange(false)}
             className="h-6 w-6 p-0"
           >
             <X className="h-4 w-4" />
@@ -444,10 +400,11 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
         
         <div className="overflow-y-auto max-h-[calc(90vh-80px)]">
           <Tabs defaultValue="map" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="map">Map View</TabsTrigger>
               <TabsTrigger value="altitude">Altitude Profile</TabsTrigger>
               <TabsTrigger value="detailed">5m Profile</TabsTrigger>
+              <TabsTrigger value="deviation">Deviation</TabsTrigger>
             </TabsList>
             
             <TabsContent value="map" className="mt-4">
@@ -484,6 +441,20 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
                 </CardHeader>
                 <CardContent>
                   <AltitudeProfile />
+                  <div className="mt-4 flex items-center justify-center space-x-4 text-xs text-slate-600">
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full bg-blue-600 mr-1"></div>
+                      Elevation data
+                    </div>
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full bg-amber-600 mr-1"></div>
+                      Regional estimate
+                    </div>
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full bg-gray-400 mr-1"></div>
+                      Manual or default
+                    </div>
+                  </div>
                 </CardContent>
               </Card>
             </TabsContent>
@@ -501,14 +472,32 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
                     </p>
                   </div>
                   {detailedProfile && (
-                    <Button
-                      onClick={downloadDetailedProfile}
-                      size="sm"
-                      variant="outline"
-                    >
-                      <Download className="w-4 h-4 mr-2" />
-                      Download
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={downloadDetailedProfile}
+                        size="sm"
+                        variant="outline"
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        JSON
+                      </Button>
+                      <Button
+                        onClick={downloadDetailedProfileGeoJson}
+                        size="sm"
+                        variant="outline"
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        GeoJSON
+                      </Button>
+                      <Button
+                        onClick={downloadDetailedProfileCsv}
+                        size="sm"
+                        variant="outline"
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        CSV
+                      </Button>
+                    </div>
                   )}
                 </CardHeader>
                 <CardContent>
@@ -523,10 +512,18 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
                           Fetching elevation data every 5 meters along your route
                         </p>
                       </div>
-                      <Progress value={profileProgress} className="w-full" />
+                      <Progress value={profilePercent} className="w-full" />
                       <p className="text-xs text-center text-muted-foreground">
-                        {profileProgress}% complete
+                        {profileProgress.total > 0
+                          ? `${profileProgress.done} of ${profileProgress.total} points (${profilePercent}%)`
+                          : 'Preparing route...'}
                       </p>
+                      <div className="text-center">
+                        <Button variant="outline" size="sm" onClick={cancelDetailedProfile}>
+                          <X className="w-4 h-4 mr-2" />
+                          Cancel
+                        </Button>
+                      </div>
                     </div>
                   ) : detailedProfile ? (
                     <div className="space-y-4">
@@ -565,12 +562,34 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
                             <span className="ml-2 font-medium">5m spacing</span>
                           </div>
                           <div>
-                            <span className="text-muted-foreground">Data Source:</span>
-                            <span className="ml-2 font-medium">Multiple APIs</span>
+                            <span className="text-muted-foreground">Estimated Points:</span>
+                            <span className="ml-2 font-medium">{detailedProfile.estimatedPoints}</span>
                           </div>
                         </div>
                       </div>
                       
+                      <div className="bg-muted/30 p-4 rounded-lg">
+                        <h4 className="font-medium mb-2">Data Sources</h4>
+                        <div className="space-y-1 text-sm">
+                          {detailedProfile.sources.map(source => (
+                            <div key={source.source} className="flex items-center justify-between gap-2">
+                              <span className={source.estimated ? 'text-amber-600' : undefined}>
+                                {source.sourceLabel}
+                                <span className="ml-2 text-xs text-muted-foreground">{describeProvenance(source)}</span>
+                              </span>
+                              <span className="font-medium">{source.points} pts</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                      
+                      {detailedProfile.estimatedPoints > 0 && (
+                        <div className="text-xs text-amber-600 text-center">
+                          {detailedProfile.estimatedPoints} of {detailedProfile.points.length} points use regional
+                          terrain estimates (±{TERRAIN_MODEL_ACCURACY}m) because no elevation data was available.
+                        </div>
+                      )}
+                      
                       <div className="text-xs text-muted-foreground text-center">
                         This detailed profile contains {detailedProfile.points.length} elevation points 
                         spaced approximately 5 meters apart along your route.
@@ -594,6 +613,23 @@ export function TrajectoryPlotter({ routePoints, elevationDataSource = 'auto' }:
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="deviation" className="mt-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center">
+                    <Route className="w-5 h-5 mr-2" />
+                    Plan vs. Actual
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    How far a recorded track strayed from the planned route, its altitudes and its schedule
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <DeviationReport routePoints={routePoints} tracks={recordedTracks} />
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
           
           {/* Trajectory Statistics */}
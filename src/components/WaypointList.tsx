@@ -0,0 +1,257 @@
+import { useState } from 'react'
+import { DndContext, KeyboardSensor, PointerSensor, useDraggable, useDroppable, useSensor, useSensors } from '@dnd-kit/core'
+import type { DragEndEvent } from '@dnd-kit/core'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { ArrowUpDown, Clock, GripVertical, Mountain, Pin, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  changeRouteAltitudes,
+  deleteRoutePoints,
+  reorderRoutePoints,
+  reverseRoutePoints,
+  shiftRouteTimestamps
+} from '../services/routeEditing'
+import { plural } from '../services/formats/common'
+import type { RoutePoint } from '../types/trajectory'
+
+interface WaypointListProps {
+  points: RoutePoint[]
+  selectedId: string | null
+  onSelect: (point: RoutePoint) => void
+  /** Receives the edited route and a label for the undo history */
+  onChange: (points: RoutePoint[], label: string) => void
+  onRefetchElevation: (points: RoutePoint[]) => void
+  isFetchingElevation: boolean
+}
+
+interface WaypointRowProps {
+  point: RoutePoint
+  index: number
+  isActive: boolean
+  isChecked: boolean
+  onClick: (event: React.MouseEvent) => void
+  onCheckedChange: (checked: boolean) => void
+}
+
+// Each row is both a drag source (by its grip) and a drop target
+function WaypointRow({ point, index, isActive, isChecked, onClick, onCheckedChange }: WaypointRowProps) {
+  const { attributes, listeners, setNodeRef: setDragRef, transform, isDragging } = useDraggable({ id: point.id })
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id: point.id })
+
+  return (
+    <div
+      ref={node => { setDragRef(node); setDropRef(node) }}
+      style={transform ? { transform: `translate3d(0, ${transform.y}px, 0)` } : undefined}
+      onClick={onClick}
+      className={`flex items-center gap-2 px-2 py-1 rounded text-xs cursor-pointer select-none ${
+        isActive ? 'ring-2 ring-primary bg-primary/5' : isChecked ? 'bg-muted' : 'hover:bg-muted/50'
+      } ${isOver && !isDragging ? 'outline outline-1 outline-primary' : ''} ${isDragging ? 'relative z-10 opacity-80 shadow' : ''}`}
+    >
+      <button
+        type="button"
+        className="text-muted-foreground cursor-grab touch-none"
+        aria-label={`Reorder ${point.name}`}
+        onClick={event => event.stopPropagation()}
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical className="w-3 h-3" />
+      </button>
+      <Checkbox
+        checked={isChecked}
+        onCheckedChange={checked => onCheckedChange(checked === true)}
+        onClick={event => event.stopPropagation()}
+        aria-label={`Select ${point.name}`}
+      />
+      <Badge variant="secondary" className="text-[10px] px-1">{index + 1}</Badge>
+      <span className="flex-1 truncate font-medium text-foreground">{point.name}</span>
+      <span className={point.altitudeSource?.estimated ? 'text-amber-600' : 'text-muted-foreground'}>
+        {point.altitude}m
+      </span>
+      <span className="w-12 flex items-center justify-end gap-0.5 text-muted-foreground">
+        {point.timePinned && <Pin className="w-2.5 h-2.5" aria-label="Pinned time" />}
+        {point.timestamp}s
+      </span>
+    </div>
+  )
+}
+
+export function WaypointList({ points, selectedId, onSelect, onChange, onRefetchElevation, isFetchingElevation }: WaypointListProps) {
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set())
+  const [anchorId, setAnchorId] = useState<string | null>(null)
+  const [bulkValue, setBulkValue] = useState('')
+  const sensors = useSensors(
+    // A small threshold keeps clicks on the grip from starting a drag
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  // Points removed elsewhere (map, editor, undo) drop out of the selection
+  const selection = new Set(points.filter(point => checkedIds.has(point.id)).map(point => point.id))
+  const allChecked = points.length > 0 && selection.size === points.length
+
+  const setChecked = (ids: string[], checked: boolean) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev)
+      ids.forEach(id => checked ? next.add(id) : next.delete(id))
+      return next
+    })
+  }
+
+  // Click selects one point, ctrl/cmd-click toggles it and shift-click checks a range
+  const handleRowClick = (point: RoutePoint, event: React.MouseEvent) => {
+    if (event.shiftKey && anchorId) {
+      const from = points.findIndex(p => p.id === anchorId)
+      const to = points.findIndex(p => p.id === point.id)
+      if (from >= 0) {
+        const range = points.slice(Math.min(from, to), Math.max(from, to) + 1).map(p => p.id)
+        setCheckedIds(new Set(range))
+        return
+      }
+    }
+    if (event.ctrlKey || event.metaKey) {
+      setChecked([point.id], !selection.has(point.id))
+    } else {
+      setCheckedIds(new Set([point.id]))
+      onSelect(point)
+    }
+    setAnchorId(point.id)
+  }
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over) return
+    const from = points.findIndex(point => point.id === active.id)
+    const to = points.findIndex(point => point.id === over.id)
+    if (from >= 0 && to >= 0) onChange(reorderRoutePoints(points, from, to), `Move ${points[from].name}`)
+  }
+
+  const applyBulk = (label: string, edit: (value: number) => RoutePoint[]) => {
+    const value = Number(bulkValue)
+    if (bulkValue.trim() === '' || isNaN(value)) {
+      toast.error('Enter a number first')
+      return
+    }
+    try {
+      onChange(edit(value), `${label} ${plural(selection.size, 'waypoint')}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Bulk edit failed')
+    }
+  }
+
+  const deleteSelected = () => {
+    onChange(deleteRoutePoints(points, selection), `Delete ${plural(selection.size, 'waypoint')}`)
+    setCheckedIds(new Set())
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            checked={allChecked ? true : selection.size > 0 ? 'indeterminate' : false}
+            onCheckedChange={() => setCheckedIds(allChecked ? new Set() : new Set(points.map(point => point.id)))}
+            aria-label="Select all waypoints"
+          />
+          <h3 className="text-sm font-medium text-foreground">Waypoints</h3>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {selection.size > 0 ? `${selection.size} of ${points.length} selected` : `${points.length} total`}
+        </span>
+      </div>
+
+      {selection.size > 0 && (
+        <div className="space-y-2 p-2 rounded-lg bg-muted/50">
+          <div className="flex flex-wrap gap-1">
+            <Button type="button" variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={deleteSelected}>
+              <Trash2 className="w-3 h-3 mr-1" />
+              Delete
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onChange(reverseRoutePoints(points, selection), `Reverse ${plural(selection.size, 'waypoint')}`)}
+              disabled={selection.size < 2}
+            >
+              <ArrowUpDown className="w-3 h-3 mr-1" />
+              Reverse
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onRefetchElevation(points.filter(point => selection.has(point.id)))}
+              disabled={isFetchingElevation}
+            >
+              <Mountain className="w-3 h-3 mr-1" />
+              Re-fetch elevation
+            </Button>
+          </div>
+          <div className="flex gap-1">
+            <Input
+              type="number"
+              value={bulkValue}
+              onChange={event => setBulkValue(event.target.value)}
+              placeholder="Value"
+              className="h-6 w-20 text-xs"
+              aria-label="Bulk edit value"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => applyBulk('Set altitude of', value => changeRouteAltitudes(points, selection, { set: value }))}
+            >
+              Set alt
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => applyBulk('Offset altitude of', value => changeRouteAltitudes(points, selection, { offset: value }))}
+            >
+              ± Alt
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => applyBulk('Shift times of', value => shiftRouteTimestamps(points, selection, value))}
+              title="Shift the times of the selected waypoints by this many seconds; other waypoints keep theirs"
+            >
+              <Clock className="w-3 h-3 mr-1" />
+              Shift
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <div className="space-y-0.5">
+          {points.map((point, index) => (
+            <WaypointRow
+              key={point.id}
+              point={point}
+              index={index}
+              isActive={point.id === selectedId}
+              isChecked={selection.has(point.id)}
+              onClick={event => handleRowClick(point, event)}
+              onCheckedChange={checked => {
+                setChecked([point.id], checked)
+                setAnchorId(point.id)
+              }}
+            />
+          ))}
+        </div>
+      </DndContext>
+    </div>
+  )
+}
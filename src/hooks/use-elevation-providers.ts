@@ -0,0 +1,12 @@
+import * as React from "react"
+import { elevationProviders } from "../services/elevationProviders"
+
+/**
+ * Registered elevation providers, re-rendering whenever one is added or removed
+ */
+export function useElevationProviders() {
+  return React.useSyncExternalStore(
+    (listener) => elevationProviders.subscribe(listener),
+    () => elevationProviders.list()
+  )
+}
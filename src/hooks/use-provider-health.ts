@@ -0,0 +1,12 @@
+import * as React from "react"
+import { providerHealth } from "../services/providerHealth"
+
+/**
+ * Recorded provider health, re-rendering after every provider request
+ */
+export function useProviderHealth() {
+  return React.useSyncExternalStore(
+    (listener) => providerHealth.subscribe(listener),
+    () => providerHealth.list()
+  )
+}
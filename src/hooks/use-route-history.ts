@@ -0,0 +1,103 @@
+import * as React from "react"
+import type { RoutePoint } from "../types/trajectory"
+
+interface RouteHistoryEntry {
+  label: string
+  /** Route after the edit */
+  points: RoutePoint[]
+  time: number
+  /** Edits sharing a group within GROUP_WINDOW_MS collapse into one entry */
+  group?: string
+}
+
+interface RouteHistoryState {
+  entries: RouteHistoryEntry[]
+  /** Entry currently shown; later entries can be redone */
+  index: number
+}
+
+type RouteHistoryAction =
+  | { type: "apply", label: string, update: (points: RoutePoint[]) => RoutePoint[], group?: string, followUp?: boolean, time: number }
+  | { type: "jump", index: number }
+  | { type: "reset", label: string, points: RoutePoint[] }
+
+const GROUP_WINDOW_MS = 1500
+const MAX_ENTRIES = 200
+
+function reducer(state: RouteHistoryState, action: RouteHistoryAction): RouteHistoryState {
+  if (action.type === "reset") {
+    return { entries: [{ label: action.label, points: action.points, time: 0 }], index: 0 }
+  }
+  if (action.type === "jump") {
+    const index = Math.min(Math.max(action.index, 0), state.entries.length - 1)
+    return index === state.index ? state : { ...state, index }
+  }
+
+  const current = state.entries[state.index]
+  const points = action.update(current.points)
+  if (points === current.points) return state
+
+  // Keep extending the latest entry while the same field is being typed into, or with
+  // the late result of an edit (e.g. its elevation lookup) however long that took
+  if (action.group && state.index === state.entries.length - 1 && state.index > 0 &&
+      current.group === action.group && (action.followUp || action.time - current.time < GROUP_WINDOW_MS)) {
+    const entries = [...state.entries]
+    entries[state.index] = { ...current, points, time: action.time }
+    return { entries, index: state.index }
+  }
+
+  // A new edit discards anything that was undone
+  const entries = [
+    ...state.entries.slice(0, state.index + 1),
+    { label: action.label, points, time: action.time, group: action.group }
+  ].slice(-MAX_ENTRIES)
+  return { entries, index: entries.length - 1 }
+}
+
+const INITIAL_STATE: RouteHistoryState = {
+  entries: [{ label: "New route", points: [], time: 0 }],
+  index: 0
+}
+
+/**
+ * Route points with an undo/redo history. Every change goes through `apply` with a
+ * label for the history list; pure updates keep it safe under concurrent async edits.
+ */
+export function useRouteHistory() {
+  const [state, dispatch] = React.useReducer(reducer, INITIAL_STATE)
+
+  const apply = React.useCallback((label: string, update: (points: RoutePoint[]) => RoutePoint[], group?: string) => {
+    dispatch({ type: "apply", label, update, group, time: Date.now() })
+  }, [])
+
+  // Merge the async result of an edit into that edit's entry while it is still the
+  // latest; after other edits it becomes an entry of its own
+  const applyFollowUp = React.useCallback((label: string, update: (points: RoutePoint[]) => RoutePoint[], group: string) => {
+    dispatch({ type: "apply", label, update, group, followUp: true, time: Date.now() })
+  }, [])
+
+  // Start a fresh history, e.g. when another route is opened
+  const reset = React.useCallback((label: string, points: RoutePoint[]) => {
+    dispatch({ type: "reset", label, points })
+  }, [])
+
+  const jumpTo = React.useCallback((index: number) => dispatch({ type: "jump", index }), [])
+  const undo = React.useCallback(() => dispatch({ type: "jump", index: state.index - 1 }), [state.index])
+  const redo = React.useCallback(() => dispatch({ type: "jump", index: state.index + 1 }), [state.index])
+
+  return {
+    points: state.entries[state.index].points,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    apply,
+    applyFollowUp,
+    undo,
+    redo,
+    jumpTo,
+    reset
+  }
+}
+
+export type { RouteHistoryEntry }
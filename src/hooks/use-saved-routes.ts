@@ -0,0 +1,12 @@
+import * as React from "react"
+import { savedRoutes } from "../services/savedRoutes"
+
+/**
+ * Routes in the workspace, re-rendering whenever one is saved, renamed or deleted
+ */
+export function useSavedRoutes() {
+  return React.useSyncExternalStore(
+    (listener) => savedRoutes.subscribe(listener),
+    () => savedRoutes.list()
+  )
+}
@@ -0,0 +1,66 @@
+// Lambert-93 (EPSG:2154) projection on the GRS80 ellipsoid
+// RGF93 and WGS84 differ by a few centimetres, so no datum shift is applied.
+
+const A = 6378137
+const F = 1 / 298.257222101
+const E = Math.sqrt(2 * F - F * F)
+
+const LAT_0 = 46.5 * Math.PI / 180
+const LNG_0 = 3 * Math.PI / 180
+const LAT_1 = 44 * Math.PI / 180
+const LAT_2 = 49 * Math.PI / 180
+const X_0 = 700000
+const Y_0 = 6600000
+
+function m(lat: number): number {
+  return Math.cos(lat) / Math.sqrt(1 - E * E * Math.sin(lat) ** 2)
+}
+
+function t(lat: number): number {
+  const eSin = E * Math.sin(lat)
+  return Math.tan(Math.PI / 4 - lat / 2) / Math.pow((1 - eSin) / (1 + eSin), E / 2)
+}
+
+const N = (Math.log(m(LAT_1)) - Math.log(m(LAT_2))) / (Math.log(t(LAT_1)) - Math.log(t(LAT_2)))
+const AF = A * m(LAT_1) / (N * Math.pow(t(LAT_1), N))
+const RHO_0 = AF * Math.pow(t(LAT_0), N)
+
+/**
+ * Convert WGS84 degrees to Lambert-93 easting/northing in meters
+ */
+export function toLambert93(lat: number, lng: number): { x: number, y: number } {
+  const rho = AF * Math.pow(t(lat * Math.PI / 180), N)
+  const theta = N * (lng * Math.PI / 180 - LNG_0)
+  return {
+    x: X_0 + rho * Math.sin(theta),
+    y: Y_0 + RHO_0 - rho * Math.cos(theta)
+  }
+}
+
+/**
+ * Convert Lambert-93 easting/northing in meters to WGS84 degrees
+ */
+export function fromLambert93(x: number, y: number): { lat: number, lng: number } {
+  const dx = x - X_0
+  const dy = RHO_0 - (y - Y_0)
+  const rho = Math.sign(N) * Math.sqrt(dx * dx + dy * dy)
+  const tPrime = Math.pow(rho / AF, 1 / N)
+  const theta = Math.atan2(dx, dy)
+
+  // Iterate the conformal latitude until it converges
+  let lat = Math.PI / 2 - 2 * Math.atan(tPrime)
+  for (let i = 0; i < 10; i++) {
+    const eSin = E * Math.sin(lat)
+    const next = Math.PI / 2 - 2 * Math.atan(tPrime * Math.pow((1 - eSin) / (1 + eSin), E / 2))
+    if (Math.abs(next - lat) < 1e-12) {
+      lat = next
+      break
+    }
+    lat = next
+  }
+
+  return {
+    lat: lat * 180 / Math.PI,
+    lng: (theta / N + LNG_0) * 180 / Math.PI
+  }
+}
@@ -0,0 +1,185 @@
+// Minimal ZIP archive support: reads stored and deflated entries and writes stored ones
+// (no ZIP64, no encryption)
+
+interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+// General purpose flag bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800
+
+/**
+ * Inflate raw deflate data using the browser's DecompressionStream
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Quick signature check for ZIP archives
+ */
+export function isZipArchive(buffer: ArrayBuffer): boolean {
+  return buffer.byteLength >= 4 && new DataView(buffer).getUint32(0, true) === LOCAL_FILE_HEADER
+}
+
+/**
+ * Read every file entry of a ZIP archive
+ */
+export async function readZipEntries(buffer: ArrayBuffer): Promise<ZipEntry[]> {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  const decoder = new TextDecoder()
+
+  // The end of central directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset
+      break
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid ZIP archive: end of central directory not found')
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP archive: corrupt central directory')
+    }
+
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localHeaderOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    // Directories have no content
+    if (name.endsWith('/')) continue
+
+    if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid ZIP archive: missing local header for ${name}`)
+    }
+    const dataStart = localHeaderOffset + 30 +
+      view.getUint16(localHeaderOffset + 26, true) +
+      view.getUint16(localHeaderOffset + 28, true)
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === 0) {
+      entries.push({ name, data: raw.slice() })
+    } else if (method === 8) {
+      entries.push({ name, data: await inflateRaw(raw) })
+    } else {
+      console.warn(`Skipping ${name}: unsupported ZIP compression method ${method}`)
+    }
+  }
+
+  return entries
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields used by ZIP headers
+function dosDateTime(date: Date): { time: number, date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Build an uncompressed ZIP archive
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array {
+  const encoder = new TextEncoder()
+  const { time, date } = dosDateTime(modified)
+  const files = entries.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data)
+  }))
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0)
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0)
+  const output = new Uint8Array(localSize + centralSize + 22)
+  const view = new DataView(output.buffer)
+  const offsets: number[] = []
+  let offset = 0
+
+  files.forEach(file => {
+    offsets.push(offset)
+    view.setUint32(offset, LOCAL_FILE_HEADER, true)
+    view.setUint16(offset + 4, 20, true)
+    view.setUint16(offset + 6, FLAG_UTF8, true)
+    view.setUint16(offset + 8, 0, true) // stored
+    view.setUint16(offset + 10, time, true)
+    view.setUint16(offset + 12, date, true)
+    view.setUint32(offset + 14, file.crc, true)
+    view.setUint32(offset + 18, file.data.length, true)
+    view.setUint32(offset + 22, file.data.length, true)
+    view.setUint16(offset + 26, file.name.length, true)
+    view.setUint16(offset + 28, 0, true)
+    output.set(file.name, offset + 30)
+    output.set(file.data, offset + 30 + file.name.length)
+    offset += 30 + file.name.length + file.data.length
+  })
+
+  const centralOffset = offset
+  files.forEach((file, index) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_HEADER, true)
+    view.setUint16(offset + 4, 20, true)
+    view.setUint16(offset + 6, 20, true)
+    view.setUint16(offset + 8, FLAG_UTF8, true)
+    view.setUint16(offset + 10, 0, true) // stored
+    view.setUint16(offset + 12, time, true)
+    view.setUint16(offset + 14, date, true)
+    view.setUint32(offset + 16, file.crc, true)
+    view.setUint32(offset + 20, file.data.length, true)
+    view.setUint32(offset + 24, file.data.length, true)
+    view.setUint16(offset + 28, file.name.length, true)
+    // Extra field, comment, disk number and attributes stay zero
+    view.setUint32(offset + 42, offsets[index], true)
+    output.set(file.name, offset + 46)
+    offset += 46 + file.name.length
+  })
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true)
+  view.setUint16(offset + 8, files.length, true)
+  view.setUint16(offset + 10, files.length, true)
+  view.setUint32(offset + 12, centralSize, true)
+  view.setUint32(offset + 16, centralOffset, true)
+
+  return output
+}
+
+export type { ZipEntry }
@@ -1,10 +1,18 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter, Route, Routes } from 'react-router-dom'
 import App from './App'
 import './index.css'
 
+// Both routes render the same App instance: / opens the last route (or a shared one
+// from the query) and /route/:routeId a saved route
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <BrowserRouter basename={import.meta.env.BASE_URL}>
+      <Routes>
+        <Route path="/" element={<App />} />
+        <Route path="/route/:routeId" element={<App />} />
+      </Routes>
+    </BrowserRouter>
   </React.StrictMode>,
-) 
\ No newline at end of file
+)
@@ -0,0 +1,133 @@
+// Altitude profile worker client
+// Same profile API as AltitudeService, but the work runs in a Web Worker so the map
+// stays responsive during long elevation jobs. Falls back to the main thread when
+// workers are unavailable or a registered provider only exists on the page.
+
+import { altitudeService } from './altitudeService'
+import type { AltitudeProfile, AltitudeRequestOptions } from './altitudeService'
+import { elevationProviders } from './elevationProviders'
+import type { LatLngPoint } from './elevationProviders'
+import { providerHealth } from './providerHealth'
+import type { ProfileWorkerRequest, ProfileWorkerResponse } from '../workers/altitudeProfile.worker'
+
+interface PendingJob {
+  resolve: (profile: AltitudeProfile) => void
+  reject: (error: unknown) => void
+  onProgress?: (done: number, total: number) => void
+  /** Run the job on the main thread instead */
+  runLocally: () => Promise<AltitudeProfile>
+  cleanup: () => void
+}
+
+class AltitudeProfiler {
+  private worker: Worker | null = null
+  private workerFailed = false
+  private jobs = new Map<number, PendingJob>()
+  private nextJobId = 1
+
+  /**
+   * Get detailed altitude profile between waypoints with 5m resolution, computed in
+   * the profile worker. Aborting cancels the worker job and rejects with an AbortError.
+   */
+  async getDetailedAltitudeProfile(waypoints: LatLngPoint[], preferredSource = 'auto', options: AltitudeRequestOptions = {}): Promise<AltitudeProfile> {
+    const { signal, onProgress } = options
+    signal?.throwIfAborted()
+
+    const runLocally = () => altitudeService.getDetailedAltitudeProfile(waypoints, preferredSource, options)
+    const worker = this.getWorker()
+    if (!worker) return runLocally()
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextJobId++
+      const onAbort = () => {
+        this.jobs.delete(id)
+        this.post({ type: 'cancel', id })
+        reject(signal!.reason)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.jobs.set(id, {
+        resolve,
+        reject,
+        onProgress,
+        runLocally,
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      })
+      // Send plain coordinates; route points may carry fields that cannot be cloned
+      this.post({
+        type: 'profile',
+        id,
+        waypoints: waypoints.map(({ lat, lng }) => ({ lat, lng })),
+        preferredSource,
+        // The worker hands the job back if it lacks any of these
+        providerIds: elevationProviders.list().map(provider => provider.id),
+        // Let the worker skip providers the page already knows are failing
+        health: providerHealth.list()
+      })
+    })
+  }
+
+  private getWorker(): Worker | null {
+    if (this.workerFailed || typeof Worker === 'undefined') return null
+    if (!this.worker) {
+      try {
+        this.worker = new Worker(new URL('../workers/altitudeProfile.worker.ts', import.meta.url), { type: 'module' })
+        this.worker.addEventListener('message', (event: MessageEvent<ProfileWorkerResponse>) => this.handleResponse(event.data))
+        this.worker.addEventListener('error', (event) => this.handleWorkerFailure(event))
+      } catch (error) {
+        this.handleWorkerFailure(error)
+        return null
+      }
+    }
+    return this.worker
+  }
+
+  private post(request: ProfileWorkerRequest) {
+    this.worker?.postMessage(request)
+  }
+
+  private handleResponse(response: ProfileWorkerResponse) {
+    if (response.type === 'health') {
+      providerHealth.merge(response.health)
+      return
+    }
+
+    const job = this.jobs.get(response.id)
+    if (!job) return
+
+    if (response.type === 'progress') {
+      job.onProgress?.(response.done, response.total)
+      return
+    }
+
+    this.jobs.delete(response.id)
+    job.cleanup()
+    if (response.type === 'result') {
+      job.resolve(response.profile)
+    } else if (response.unsupported) {
+      job.runLocally().then(job.resolve, job.reject)
+    } else {
+      job.reject(new Error(response.message))
+    }
+  }
+
+  /**
+   * The worker could not be started or crashed: stop using it and finish pending
+   * jobs on the main thread
+   */
+  private handleWorkerFailure(error: unknown) {
+    console.warn('Altitude profile worker unavailable, profiling on the main thread:', error)
+    this.workerFailed = true
+    this.worker?.terminate()
+    this.worker = null
+
+    const pending = [...this.jobs.values()]
+    this.jobs.clear()
+    pending.forEach(job => {
+      job.cleanup()
+      job.runLocally().then(job.resolve, job.reject)
+    })
+  }
+}
+
+export const altitudeProfiler = new AltitudeProfiler()
@@ -1,11 +1,58 @@
 // IGN RGE ALTI® 5m Altitude Service
 // This service provides high-precision altitude data for France using IGN's elevation API
 
+import { elevationProviders, providerCovers } from './elevationProviders'
+import type { ElevationProvider, LatLngPoint } from './elevationProviders'
+import { elevationCache } from './elevationCache'
+import type { CachedElevation } from './elevationCache'
+import { GLOBAL_TIER, coverageTier, providerHealth } from './providerHealth'
+import { estimateElevation, TERRAIN_MODEL_ACCURACY, TERRAIN_MODEL_RESOLUTION } from './terrainModel'
+
 interface AltitudePoint {
   lat: number
   lng: number
   altitude: number
   distance?: number
+  /** Provider id the altitude came from, 'regional' for terrain model estimates */
+  source?: string
+  /** True when the altitude comes from the coarse terrain model rather than elevation data */
+  estimated?: boolean
+}
+
+/**
+ * Where an altitude value came from and how far it can be trusted
+ */
+interface ElevationProvenance {
+  /** Provider id, or 'regional' for terrain model estimates */
+  source: string
+  /** Provider label at retrieval time, kept in case the provider is removed later */
+  sourceLabel: string
+  /** Horizontal resolution of the source dataset in meters */
+  resolution: number
+  /** Vertical reference of the altitude, e.g. 'EGM96' */
+  verticalDatum: string
+  /** Estimated vertical accuracy in meters */
+  accuracy: number
+  /** When the source answered (ISO 8601); the original time for cached values */
+  retrievedAt: string
+  /** True when no elevation source answered and the coarse terrain model was used */
+  estimated: boolean
+}
+
+interface ElevationResult extends ElevationProvenance {
+  altitude: number
+}
+
+/**
+ * Sources contributing to a profile, with the number of points each provided
+ */
+type ProfileSource = Omit<ElevationProvenance, 'retrievedAt'> & { points: number }
+
+interface AltitudeRequestOptions {
+  /** Aborting stops outstanding requests and rejects with an AbortError */
+  signal?: AbortSignal
+  /** Called after each chunk with the number of points resolved so far */
+  onProgress?: (done: number, total: number) => void
 }
 
 interface AltitudeProfile {
@@ -15,88 +62,53 @@ interface AltitudeProfile {
   elevationLoss: number
   minAltitude: number
   maxAltitude: number
+  /** Number of points whose altitude is a terrain model estimate */
+  estimatedPoints: number
+  sources: ProfileSource[]
 }
 
-class AltitudeService {
-  private readonly PRIMARY_APIS = [
-    {
-      name: 'OpenTopoData SRTM30m (Global)',
-      parseResponse: (data: any) => data.results?.[0]?.elevation,
-      formatUrl: (lat: number, lng: number) => `https://api.opentopodata.org/v1/srtm30m?locations=${lat},${lng}`,
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'GPS-Trajectory-Planner/1.0'
-      },
-      priority: 1
-    },
-    {
-      name: 'OpenTopoData EU-DEM (Europe)',
-      parseResponse: (data: any) => data.results?.[0]?.elevation,
-      formatUrl: (lat: number, lng: number) => `https://api.opentopodata.org/v1/eudem25m?locations=${lat},${lng}`,
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'GPS-Trajectory-Planner/1.0'
-      },
-      priority: 2,
-      region: 'europe'
-    },
-    {
-      name: 'Open-Elevation (Global)',
-      parseResponse: (data: any) => data.results?.[0]?.elevation,
-      formatUrl: (lat: number, lng: number) => {
-        return 'https://api.open-elevation.com/api/v1/lookup'
-      },
-      method: 'POST',
-      body: (lat: number, lng: number) => JSON.stringify({
-        locations: [{ latitude: lat, longitude: lng }]
-      }),
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'User-Agent': 'GPS-Trajectory-Planner/1.0'
-      },
-      priority: 3
-    },
-    {
-      name: 'IGN RGE ALTI (France)',
-      parseResponse: (data: any) => {
-        // GeoPlateforme WMS returns features with properties
-        if (data && data.features && data.features.length > 0) {
-          const properties = data.features[0].properties
-          if (properties && properties.GRAY_INDEX !== null && properties.GRAY_INDEX !== undefined) {
-            return properties.GRAY_INDEX
-          }
-        }
-        return null
-      },
-      formatUrl: (lat: number, lng: number) => {
-        // IGN GeoPlateforme WMS service for high-resolution elevation
-        const bbox = `${lng-0.001},${lat-0.001},${lng+0.001},${lat+0.001}`
-        return `https://data.geopf.fr/wms-r/wms?SERVICE=WMS&VERSION=1.3.0&REQUEST=GetFeatureInfo&LAYERS=ELEVATIONGRIDCOVERAGE.HIGHRES.QUALITY&QUERY_LAYERS=ELEVATIONGRIDCOVERAGE.HIGHRES.QUALITY&CRS=EPSG:4326&BBOX=${bbox}&WIDTH=1&HEIGHT=1&I=0&J=0&INFO_FORMAT=application/json`
-      },
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'GPS-Trajectory-Planner/1.0'
-      },
-      priority: 4,
-      region: 'france'
-    },
-    {
-      name: 'OpenTopoData ASTER30m (Global)',
-      parseResponse: (data: any) => data.results?.[0]?.elevation,
-      formatUrl: (lat: number, lng: number) => `https://api.opentopodata.org/v1/aster30m?locations=${lat},${lng}`,
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'GPS-Trajectory-Planner/1.0'
-      },
-      priority: 5
+// Points per profile chunk; each chunk walks the provider chain on its own
+const BATCH_CHUNK_SIZE = 100
+// Pause between chunks to stay within OpenTopoData's 1 request/second limit
+const BATCH_CHUNK_DELAY_MS = 1000
+// Multi-location requests take longer to answer than single lookups
+const BATCH_TIMEOUT_MS = 15000
+// Requests in flight at once to providers that take one location per request
+const SINGLE_POINT_CONCURRENCY = 4
+// Source id used for terrain model estimates
+const REGIONAL_SOURCE_ID = 'regional'
+
+/**
+ * Resolve after a delay, or reject as soon as the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(signal!.reason)
     }
-  ]
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function formatMeters(meters: number): string {
+  if (meters >= 1000) return `${Math.round(meters / 1000)} km`
+  return meters < 10 ? `${Number(meters.toFixed(1))} m` : `${Math.round(meters)} m`
+}
 
+/**
+ * One-line summary of a source's quality, e.g. "30 m · EGM96 · ±16 m"
+ */
+function describeProvenance(provenance: Pick<ElevationProvenance, 'resolution' | 'verticalDatum' | 'accuracy'>): string {
+  return `${formatMeters(provenance.resolution)} · ${provenance.verticalDatum} · ±${formatMeters(provenance.accuracy)}`
+}
+
+class AltitudeService {
   /**
    * Calculate distance between two points in meters using Haversine formula
    */
@@ -135,179 +147,336 @@ class AltitudeService {
   }
 
   /**
-   * Fetch altitude from a specific API
+   * Send one request to a provider and parse one elevation (or null) per point.
+   * Throws on network, HTTP and response format errors. Outcomes of remote requests
+   * are recorded in the provider health tracker.
    */
-  private async fetchFromSpecificAPI(lat: number, lng: number, apiName: string): Promise<number | null> {
-    const apiMap: { [key: string]: any } = {
-      'opentopodata-srtm30m': this.PRIMARY_APIS.find(api => api.name.includes('SRTM30m')),
-      'opentopodata-eudem': this.PRIMARY_APIS.find(api => api.name.includes('EU-DEM')),
-      'open-elevation': this.PRIMARY_APIS.find(api => api.name.includes('Open-Elevation')),
-      'ign-rge-alti': this.PRIMARY_APIS.find(api => api.name.includes('IGN RGE ALTI')),
-      'opentopodata-aster': this.PRIMARY_APIS.find(api => api.name.includes('ASTER30m'))
+  private async requestElevations(provider: ElevationProvider, points: LatLngPoint[], signal?: AbortSignal): Promise<Array<number | null>> {
+    signal?.throwIfAborted()
+    if (provider.lookup) {
+      const elevations = await provider.lookup(points)
+      return elevations.map(elevation =>
+        typeof elevation === 'number' && !isNaN(elevation) ? Math.round(elevation) : null
+      )
     }
-
-    const api = apiMap[apiName]
-    if (!api) {
-      console.warn(`Unknown API: ${apiName}`)
-      return null
+    
+    const { url, init } = provider.buildRequest!(points)
+    
+    // Only one trial request reaches a provider whose circuit is half-open
+    if (!providerHealth.acquire(provider.id)) {
+      throw new Error(`${provider.label} is cooling down after repeated failures`)
     }
-
+    
+    const controller = new AbortController()
+    const timeout = points.length > 1 ? Math.max(provider.timeout, BATCH_TIMEOUT_MS) : provider.timeout
+    const timeoutId = setTimeout(() => controller.abort(), timeout)
+    const onAbort = () => controller.abort(signal!.reason)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const startedAt = performance.now()
+    
     try {
-      const url = api.formatUrl(lat, lng)
-      
-      const controller = new AbortController()
-      const timeout = api.name.includes('IGN') ? 8000 : 6000
-      const timeoutId = setTimeout(() => controller.abort(), timeout)
-      
-      const fetchOptions: RequestInit = {
-        signal: controller.signal,
-        method: api.method || 'GET',
+      const response = await fetch(url, {
+        method: 'GET',
         mode: 'cors',
         cache: 'no-cache',
         credentials: 'omit',
-        headers: {
-          ...api.headers,
-          'User-Agent': 'GPS-Trajectory-Planner/1.0'
-        }
-      }
-      
-      if (api.method === 'POST' && api.body) {
-        fetchOptions.body = api.body(lat, lng)
-      }
-      
-      const response = await fetch(url, fetchOptions)
-      clearTimeout(timeoutId)
+        ...init,
+        signal: controller.signal
+      })
       
       if (!response.ok) {
-        console.warn(`${api.name} HTTP ${response.status}: ${response.statusText}`)
-        return null
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
       }
       
-      const data = await response.json()
-      const elevation = api.parseResponse(data)
+      const elevations = provider.parseResponse!(await response.json(), points)
       
-      if (typeof elevation === 'number' && !isNaN(elevation) && elevation !== null) {
-        console.log(`✅ ${api.name} returned elevation: ${elevation}m`)
-        return Math.round(elevation)
+      // Only trust responses that answer every requested location in order
+      if (elevations.length !== points.length) {
+        throw new Error(`Invalid response: ${elevations.length} results for ${points.length} locations`)
       }
       
-      console.warn(`${api.name} returned invalid elevation data:`, elevation)
+      providerHealth.recordSuccess(provider.id, performance.now() - startedAt, points.length)
+      return elevations.map(elevation =>
+        typeof elevation === 'number' && !isNaN(elevation) ? Math.round(elevation) : null
+      )
+    } catch (error) {
+      // Cancellation says nothing about the provider
+      if (signal?.aborted) {
+        providerHealth.release(provider.id)
+      } else {
+        providerHealth.recordFailure(provider.id, this.describeError(error))
+      }
+      throw error
+    } finally {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /**
+   * Turn a request error into a short message for logs and the status panel
+   */
+  private describeError(error: unknown): string {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    
+    // Categorize errors for better user understanding
+    if (errorMessage.startsWith('HTTP 401') || errorMessage.startsWith('HTTP 403')) {
+      return 'Access denied (authentication required)'
+    } else if (errorMessage.startsWith('HTTP 404')) {
+      return 'Service endpoint not found'
+    } else if (errorMessage.startsWith('HTTP 5')) {
+      return 'Server error (service temporarily unavailable)'
+    } else if (errorMessage.startsWith('HTTP ')) {
+      return errorMessage
+    } else if (errorMessage.includes('CORS') || errorMessage.includes('cors') || errorMessage.includes('Cross-Origin')) {
+      return 'CORS blocked by browser security'
+    } else if (errorMessage.includes('NetworkError') || errorMessage.includes('Failed to fetch')) {
+      return 'Network error or API unavailable'
+    } else if ((error instanceof Error && error.name === 'AbortError') || errorMessage.includes('timeout')) {
+      return 'Request timeout (API too slow)'
+    } else if (errorMessage.includes('TypeError') && errorMessage.includes('fetch')) {
+      return 'Network or CORS issue'
+    } else if (error instanceof SyntaxError || errorMessage.startsWith('Invalid response')) {
+      return 'Invalid response format'
+    }
+    return errorMessage.substring(0, 50) + (errorMessage.length > 50 ? '...' : '')
+  }
+
+  /**
+   * Ids of the remote providers whose answers are worth caching; local sources
+   * answer instantly and are skipped
+   */
+  private getCacheableIds(providers: ElevationProvider[]): string[] {
+    return providers.filter(provider => !provider.lookup).map(provider => provider.id)
+  }
+
+  private async cacheElevations(provider: ElevationProvider, points: LatLngPoint[], elevations: Array<number | null>) {
+    if (provider.lookup) return
+    await elevationCache.setMany(provider.id, points, elevations)
+  }
+
+  /**
+   * Attach provider provenance to an altitude
+   */
+  private toResult(provider: ElevationProvider, altitude: number, retrievedAt = Date.now()): ElevationResult {
+    return {
+      altitude,
+      source: provider.id,
+      sourceLabel: provider.label,
+      resolution: provider.resolution,
+      verticalDatum: provider.verticalDatum,
+      accuracy: provider.verticalAccuracy,
+      retrievedAt: new Date(retrievedAt).toISOString(),
+      estimated: false
+    }
+  }
+
+  /**
+   * Turn a cache entry back into a result, if its provider is still registered
+   */
+  private fromCache(entry: CachedElevation | null, providers: ElevationProvider[]): ElevationResult | null {
+    const provider = entry && providers.find(p => p.id === entry.providerId)
+    return entry && provider ? this.toResult(provider, entry.altitude, entry.storedAt) : null
+  }
+
+  /**
+   * Fetch altitude from a specific provider
+   */
+  private async fetchFromSpecificAPI(lat: number, lng: number, providerId: string): Promise<ElevationResult | null> {
+    const provider = elevationProviders.get(providerId)
+    if (!provider) {
+      console.warn(`Unknown elevation provider: ${providerId}`)
+      return null
+    }
+
+    const [cached] = await elevationCache.getMany([{ lat, lng }], this.getCacheableIds([provider]))
+    const cachedResult = this.fromCache(cached, [provider])
+    if (cachedResult) return cachedResult
+
+    if (!provider.lookup && !providerHealth.isAvailable(provider.id)) {
+      console.warn(`${provider.label} is cooling down after repeated failures`)
+      return null
+    }
+
+    try {
+      const [elevation] = await this.requestElevations(provider, [{ lat, lng }])
+      if (elevation !== null) {
+        console.log(`✅ ${provider.label} returned elevation: ${elevation}m`)
+        await this.cacheElevations(provider, [{ lat, lng }], [elevation])
+        return this.toResult(provider, elevation)
+      }
+      console.warn(`${provider.label} returned invalid elevation data`)
       return null
-      
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      console.warn(`${api.name} failed: ${errorMessage}`)
+      console.warn(`${provider.label} failed: ${this.describeError(error)}`)
       return null
     }
   }
 
   /**
-   * Fetch altitude from multiple elevation APIs with fallback and improved error handling
+   * Fetch altitudes for several points from one provider, split into requests of
+   * at most provider.maxBatchSize locations. Single-location providers get a few
+   * requests at a time. Entries are null where the provider had no value or the
+   * request failed.
+   */
+  private async fetchBatchFromAPI(provider: ElevationProvider, points: LatLngPoint[], signal?: AbortSignal): Promise<Array<number | null>> {
+    const results: Array<number | null> = new Array(points.length).fill(null)
+    const starts: number[] = []
+    for (let start = 0; start < points.length; start += provider.maxBatchSize) {
+      starts.push(start)
+    }
+    const concurrency = provider.maxBatchSize === 1 ? SINGLE_POINT_CONCURRENCY : 1
+
+    for (let group = 0; group < starts.length; group += concurrency) {
+      // Stop as soon as the circuit opens; the remaining points go to the next provider
+      if (!provider.lookup && !providerHealth.isAvailable(provider.id)) break
+      await Promise.all(starts.slice(group, group + concurrency).map(async start => {
+        const slice = points.slice(start, start + provider.maxBatchSize)
+        try {
+          const elevations = await this.requestElevations(provider, slice, signal)
+          elevations.forEach((elevation, i) => {
+            results[start + i] = elevation
+          })
+        } catch (error) {
+          // Cancellation ends the whole operation rather than moving on to the next provider
+          if (signal?.aborted) throw error
+          console.warn(`${provider.label} batch failed: ${this.describeError(error)}`)
+        }
+      }))
+    }
+
+    return results
+  }
+
+  /**
+   * Fetch altitudes for one chunk of points, consulting the cache first and then
+   * falling back through the provider chain for whichever points are still
+   * missing after each provider.
+   */
+  private async fetchChunkFromAPIs(points: LatLngPoint[], preferredSource: string, signal?: AbortSignal): Promise<{ elevations: Array<ElevationResult | null>, cacheHits: number }> {
+    const results: Array<ElevationResult | null> = new Array(points.length).fill(null)
+    if (points.length === 0) return { elevations: results, cacheHits: 0 }
+
+    // Every provider that may answer, ranked by the chunk's midpoint
+    let candidates: ElevationProvider[]
+    if (preferredSource === 'auto') {
+      const mid = points[Math.floor(points.length / 2)]
+      candidates = elevationProviders.forLocation(mid.lat, mid.lng)
+    } else {
+      const provider = elevationProviders.get(preferredSource)
+      candidates = provider ? [provider] : []
+    }
+
+    // Cached answers are used even from providers that are currently failing
+    const cached = await elevationCache.getMany(points, this.getCacheableIds(candidates))
+    cached.forEach((entry, index) => {
+      results[index] = this.fromCache(entry, candidates)
+    })
+    const cacheHits = results.filter(result => result !== null).length
+
+    // Skip open circuits and prefer healthy providers. Among the interchangeable
+    // global providers, batch-capable ones go before per-point ones; local and
+    // regional sources keep their place so a fine regional dataset still comes first.
+    const ranked = providerHealth.rank(candidates)
+    const global = ranked.filter(provider => coverageTier(provider) === GLOBAL_TIER)
+    const providers = [
+      ...ranked.filter(provider => coverageTier(provider) !== GLOBAL_TIER),
+      ...global.filter(provider => provider.maxBatchSize > 1),
+      ...global.filter(provider => provider.maxBatchSize === 1)
+    ]
+
+    for (const provider of providers) {
+      const pending = results
+        .map((value, index) => (value === null ? index : -1))
+        .filter(index => index >= 0)
+      if (pending.length === 0) break
+
+      const pendingPoints = pending.map(i => points[i])
+      const elevations = await this.fetchBatchFromAPI(provider, pendingPoints, signal)
+      const retrievedAt = Date.now()
+      elevations.forEach((elevation, i) => {
+        if (elevation !== null) results[pending[i]] = this.toResult(provider, elevation, retrievedAt)
+      })
+      await this.cacheElevations(provider, pendingPoints, elevations)
+
+      const resolved = elevations.filter(e => e !== null).length
+      if (resolved > 0) {
+        console.log(`✅ ${provider.label} returned ${resolved}/${pending.length} elevations`)
+      }
+    }
+
+    return { elevations: results, cacheHits }
+  }
+
+  /**
+   * Get altitudes for many points at once. Points are split into chunks that are
+   * requested through multi-location endpoints; each chunk falls back through the
+   * provider chain independently and, as a last resort, to regional estimates.
+   */
+  async getAltitudes(points: LatLngPoint[], preferredSource = 'auto', options: AltitudeRequestOptions = {}): Promise<ElevationResult[]> {
+    const { signal, onProgress } = options
+    signal?.throwIfAborted()
+
+    if (preferredSource === REGIONAL_SOURCE_ID) {
+      const estimates = points.map(p => this.getRegionalEstimate(p.lat, p.lng))
+      onProgress?.(points.length, points.length)
+      return estimates
+    }
+
+    const results: ElevationResult[] = []
+    onProgress?.(0, points.length)
+
+    for (let start = 0; start < points.length; start += BATCH_CHUNK_SIZE) {
+      const chunk = points.slice(start, start + BATCH_CHUNK_SIZE)
+      const { elevations, cacheHits } = await this.fetchChunkFromAPIs(chunk, preferredSource, signal)
+
+      const missing = elevations.filter(e => e === null).length
+      if (missing > 0) {
+        console.warn(`${missing}/${chunk.length} points without API elevation, using regional estimates`)
+      }
+
+      elevations.forEach((elevation, i) => {
+        results.push(elevation ?? this.getRegionalEstimate(chunk[i].lat, chunk[i].lng))
+      })
+      onProgress?.(results.length, points.length)
+
+      // Chunks served entirely from the cache made no requests and need no pause
+      if (start + BATCH_CHUNK_SIZE < points.length && cacheHits < chunk.length) {
+        await delay(BATCH_CHUNK_DELAY_MS, signal)
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Fetch altitude from the cache or the registered providers covering a point, with fallback
    */
-  private async fetchElevationFromAPIs(lat: number, lng: number): Promise<number | null> {
+  private async fetchElevationFromAPIs(lat: number, lng: number): Promise<ElevationResult | null> {
     const errors: string[] = []
+    const providers = elevationProviders.forLocation(lat, lng)
     
-    // Sort APIs by priority and region relevance
-    const sortedAPIs = [...this.PRIMARY_APIS].sort((a, b) => {
-      const aPriority = (a as any).priority || 999
-      const bPriority = (b as any).priority || 999
-      
-      // Prioritize region-specific APIs for their regions
-      const isInEurope = lat >= 35 && lat <= 70 && lng >= -10 && lng <= 40
-      const isInFrance = this.isInFrance(lat, lng)
-      
-      if (isInFrance && (a as any).region === 'france') return -1
-      if (isInFrance && (b as any).region === 'france') return 1
-      if (isInEurope && (a as any).region === 'europe') return -1
-      if (isInEurope && (b as any).region === 'europe') return 1
-      
-      return aPriority - bPriority
-    })
+    const [cached] = await elevationCache.getMany([{ lat, lng }], this.getCacheableIds(providers))
+    const cachedResult = this.fromCache(cached, providers)
+    if (cachedResult) return cachedResult
     
-    for (const api of sortedAPIs) {
+    for (const provider of providerHealth.rank(providers)) {
       try {
-        const url = api.formatUrl(lat, lng)
-        
-        const controller = new AbortController()
-        // Use longer timeout for WMS requests
-        const timeout = api.name.includes('IGN') ? 8000 : 6000
-        const timeoutId = setTimeout(() => controller.abort(), timeout)
+        const [elevation] = await this.requestElevations(provider, [{ lat, lng }])
         
-        const fetchOptions: RequestInit = {
-          signal: controller.signal,
-          method: (api as any).method || 'GET',
-          mode: 'cors',
-          cache: 'no-cache',
-          credentials: 'omit',
-          headers: {
-            ...(api as any).headers,
-            'User-Agent': 'GPS-Trajectory-Planner/1.0'
-          }
-        }
-        
-        // Add body for POST requests
-        if ((api as any).method === 'POST' && (api as any).body) {
-          fetchOptions.body = (api as any).body(lat, lng)
-        }
-        
-        const response = await fetch(url, fetchOptions)
-        
-        clearTimeout(timeoutId)
-        
-        if (!response.ok) {
-          let errorMsg = `HTTP ${response.status}: ${response.statusText}`
-          
-          // Special handling for IGN API errors
-          if (api.name.includes('IGN')) {
-            if (response.status === 403 || response.status === 401) {
-              errorMsg = 'Access denied (authentication required)'
-            } else if (response.status === 404) {
-              errorMsg = 'Service endpoint not found'
-            } else if (response.status >= 500) {
-              errorMsg = 'Server error (service temporarily unavailable)'
-            }
-          }
-          
-          console.warn(`${api.name} ${errorMsg}`)
-          errors.push(`${api.name}: ${errorMsg}`)
-          continue
-        }
-        
-        const data = await response.json()
-        const elevation = api.parseResponse(data)
-        
-        if (typeof elevation === 'number' && !isNaN(elevation) && elevation !== null) {
-          console.log(`✅ ${api.name} returned elevation: ${elevation}m for ${lat.toFixed(4)}, ${lng.toFixed(4)}`)
-          return Math.round(elevation)
+        if (elevation !== null) {
+          console.log(`✅ ${provider.label} returned elevation: ${elevation}m for ${lat.toFixed(4)}, ${lng.toFixed(4)}`)
+          await this.cacheElevations(provider, [{ lat, lng }], [elevation])
+          return this.toResult(provider, elevation)
         }
         
         const invalidMsg = 'Invalid elevation data returned'
-        console.warn(`${api.name} ${invalidMsg}:`, elevation)
-        errors.push(`${api.name}: ${invalidMsg}`)
-        
+        console.warn(`${provider.label} ${invalidMsg}`)
+        errors.push(`${provider.label}: ${invalidMsg}`)
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error)
-        let friendlyError = ''
-        
-        // Categorize errors for better user understanding
-        if (errorMessage.includes('CORS') || errorMessage.includes('cors') || errorMessage.includes('Cross-Origin')) {
-          friendlyError = 'CORS blocked by browser security'
-        } else if (errorMessage.includes('NetworkError') || errorMessage.includes('Failed to fetch')) {
-          friendlyError = 'Network error or API unavailable'
-        } else if (errorMessage.includes('AbortError') || errorMessage.includes('timeout')) {
-          friendlyError = 'Request timeout (API too slow)'
-        } else if (errorMessage.includes('TypeError') && errorMessage.includes('fetch')) {
-          friendlyError = 'Network or CORS issue'
-        } else if (errorMessage.includes('SyntaxError')) {
-          friendlyError = 'Invalid response format'
-        } else {
-          friendlyError = errorMessage.substring(0, 50) + (errorMessage.length > 50 ? '...' : '')
-        }
-        
-        console.warn(`${api.name} failed: ${friendlyError}`)
-        errors.push(`${api.name}: ${friendlyError}`)
-        
-        continue
+        const friendlyError = this.describeError(error)
+        console.warn(`${provider.label} failed: ${friendlyError}`)
+        errors.push(`${provider.label}: ${friendlyError}`)
       }
     }
     
@@ -319,183 +488,157 @@ class AltitudeService {
   }
 
   /**
-   * Get regional default altitude based on location with improved accuracy
+   * Get a deterministic regional altitude estimate from the coarse terrain model
    */
   private getRegionalDefaultAltitude(lat: number, lng: number): number {
-    // Toulouse region (default for this app) - more precise
-    if (lat >= 43.4 && lat <= 43.8 && lng >= 1.2 && lng <= 1.7) {
-      // Toulouse city center is around 150m, but varies by district
-      const distanceFromCenter = Math.sqrt(Math.pow(lat - 43.6047, 2) + Math.pow(lng - 1.4442, 2))
-      return Math.round(150 + distanceFromCenter * 100) // Slight elevation increase with distance
-    }
-    
-    // France mainland - improved regional estimates
-    if (lat >= 41.3 && lat <= 51.1 && lng >= -5.2 && lng <= 9.6) {
-      // Alps region (high mountains)
-      if (lat >= 44.0 && lat <= 46.5 && lng >= 5.5 && lng <= 7.5) {
-        return Math.round(800 + Math.random() * 400) // 800-1200m variation
-      }
-      // Pyrenees region (mountains)
-      if (lat >= 42.5 && lat <= 43.5 && lng >= -2.0 && lng <= 3.0) {
-        return Math.round(600 + Math.random() * 300) // 600-900m variation
-      }
-      // Massif Central (hills)
-      if (lat >= 44.0 && lat <= 46.5 && lng >= 2.0 && lng <= 4.5) {
-        return Math.round(400 + Math.random() * 200) // 400-600m variation
-      }
-      // Vosges mountains
-      if (lat >= 47.5 && lat <= 48.5 && lng >= 6.5 && lng <= 7.5) {
-        return Math.round(500 + Math.random() * 300) // 500-800m variation
-      }
-      // Coastal areas (Atlantic and Mediterranean)
-      if (lng <= 0 || lng >= 7 || lat <= 42.5) {
-        return Math.round(20 + Math.random() * 60) // 20-80m coastal variation
-      }
-      // Paris region (relatively flat)
-      if (lat >= 48.5 && lat <= 49.2 && lng >= 2.0 && lng <= 2.8) {
-        return Math.round(80 + Math.random() * 40) // 80-120m Paris basin
-      }
-      // General France (plains and low hills)
-      return Math.round(200 + Math.random() * 100) // 200-300m general variation
-    }
-    
-    // Europe - broader estimates
-    if (lat >= 35 && lat <= 70 && lng >= -10 && lng <= 40) {
-      // Scandinavian mountains
-      if (lat >= 60 && lng >= 5 && lng <= 15) return Math.round(300 + Math.random() * 400)
-      // Alps (broader region)
-      if (lat >= 45 && lat <= 48 && lng >= 6 && lng <= 16) return Math.round(600 + Math.random() * 600)
-      // UK and Ireland (generally low)
-      if (lng >= -10 && lng <= 2 && lat >= 50) return Math.round(100 + Math.random() * 200)
-      // European plains
-      return Math.round(150 + Math.random() * 100)
-    }
-    
-    // Global defaults with some geographic logic
-    if (lat >= -60 && lat <= 60) {
-      // Near equator (often lower)
-      if (Math.abs(lat) <= 10) return Math.round(50 + Math.random() * 100)
-      // Temperate zones
-      if (Math.abs(lat) <= 40) return Math.round(100 + Math.random() * 200)
-      // Higher latitudes (more varied terrain)
-      return Math.round(200 + Math.random() * 300)
+    return Math.round(estimateElevation(lat, lng))
+  }
+
+  private getRegionalEstimate(lat: number, lng: number): ElevationResult {
+    return {
+      altitude: this.getRegionalDefaultAltitude(lat, lng),
+      source: REGIONAL_SOURCE_ID,
+      sourceLabel: 'Coarse terrain model (major relief only)',
+      resolution: TERRAIN_MODEL_RESOLUTION,
+      verticalDatum: 'MSL',
+      accuracy: TERRAIN_MODEL_ACCURACY,
+      retrievedAt: new Date().toISOString(),
+      estimated: true
     }
-    
-    // Polar regions (generally low but can be mountainous)
-    return Math.round(100 + Math.random() * 200) // Global fallback with variation
   }
 
   /**
    * Get altitude for a single point with multiple API fallback and retry logic
    */
   async getAltitude(lat: number, lng: number, retryCount = 0, preferredSource = 'auto'): Promise<number> {
+    const { altitude } = await this.getElevation(lat, lng, preferredSource, retryCount)
+    return altitude
+  }
+
+  /**
+   * Get elevation for a single point with its provenance, flagging values that
+   * fell back to the terrain model
+   */
+  async getElevation(lat: number, lng: number, preferredSource = 'auto', retryCount = 0): Promise<ElevationResult> {
     // Validate coordinates
     if (lat < -90 || lat > 90 || lng < -180 || lng > 180) {
       console.warn(`Invalid coordinates: ${lat}, ${lng}`)
-      return this.getRegionalDefaultAltitude(lat, lng)
+      return this.getRegionalEstimate(lat, lng)
     }
 
     // Handle regional estimates directly
-    if (preferredSource === 'regional') {
-      return this.getRegionalDefaultAltitude(lat, lng)
+    if (preferredSource === REGIONAL_SOURCE_ID) {
+      return this.getRegionalEstimate(lat, lng)
     }
 
     // Try specific API if requested
     if (preferredSource !== 'auto') {
-      const specificAltitude = await this.fetchFromSpecificAPI(lat, lng, preferredSource)
-      if (specificAltitude !== null) {
-        return specificAltitude
+      const specificResult = await this.fetchFromSpecificAPI(lat, lng, preferredSource)
+      if (specificResult !== null) {
+        return specificResult
       }
       // Fall back to regional if specific API fails
       console.warn(`Specific API ${preferredSource} failed, using regional estimate`)
-      return this.getRegionalDefaultAltitude(lat, lng)
+      return this.getRegionalEstimate(lat, lng)
     }
 
     // Try elevation APIs with fallback (AUTO mode)
-    const apiAltitude = await this.fetchElevationFromAPIs(lat, lng)
-    if (apiAltitude !== null) {
-      return apiAltitude
+    const apiResult = await this.fetchElevationFromAPIs(lat, lng)
+    if (apiResult !== null) {
+      return apiResult
     }
 
     // Retry once with exponential backoff if first attempt failed
     if (retryCount === 0) {
       console.log(`Retrying elevation fetch for ${lat.toFixed(4)}, ${lng.toFixed(4)} after 1 second...`)
       await new Promise(resolve => setTimeout(resolve, 1000))
-      return this.getAltitude(lat, lng, 1, preferredSource)
+      return this.getElevation(lat, lng, preferredSource, 1)
     }
 
-    // Use regional default if all APIs fail after retry
-    const defaultAltitude = this.getRegionalDefaultAltitude(lat, lng)
-    console.warn(`All elevation APIs failed for ${lat.toFixed(4)}, ${lng.toFixed(4)} after retry. Using regional default: ${defaultAltitude}m`)
-    return defaultAltitude
+    // Use regional estimate if all APIs fail after retry
+    const estimate = this.getRegionalEstimate(lat, lng)
+    console.warn(`All elevation APIs failed for ${lat.toFixed(4)}, ${lng.toFixed(4)} after retry. Using regional estimate: ${estimate.altitude}m`)
+    return estimate
   }
 
   /**
-   * Get detailed altitude profile between waypoints with 5m resolution
+   * Get detailed altitude profile between waypoints with 5m resolution.
+   * Progress is reported in interpolated points; aborting rejects with an AbortError.
    */
-  async getDetailedAltitudeProfile(waypoints: Array<{lat: number, lng: number}>): Promise<AltitudeProfile> {
+  async getDetailedAltitudeProfile(waypoints: Array<{lat: number, lng: number}>, preferredSource = 'auto', options: AltitudeRequestOptions = {}): Promise<AltitudeProfile> {
     if (waypoints.length < 2) {
       throw new Error('At least 2 waypoints required for altitude profile')
     }
 
+    // Interpolate points every 5 meters along each segment
+    const interpolatedPoints: LatLngPoint[] = []
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const start = waypoints[i]
+      const end = waypoints[i + 1]
+      interpolatedPoints.push(...this.interpolatePoints(start.lat, start.lng, end.lat, end.lng))
+    }
+
+    // Fetch all altitudes in multi-location batches
+    const elevations = await this.getAltitudes(interpolatedPoints, preferredSource, options)
+
     const allPoints: AltitudePoint[] = []
     let totalDistance = 0
     let elevationGain = 0
     let elevationLoss = 0
     let minAltitude = Infinity
     let maxAltitude = -Infinity
+    let estimatedPoints = 0
+    const sources = new Map<string, ProfileSource>()
 
-    // Process each segment between waypoints
-    for (let i = 0; i < waypoints.length - 1; i++) {
-      const start = waypoints[i]
-      const end = waypoints[i + 1]
-      
-      // Interpolate points every 5 meters
-      const interpolatedPoints = this.interpolatePoints(start.lat, start.lng, end.lat, end.lng)
+    interpolatedPoints.forEach((point, index) => {
+      const result = elevations[index]
+      const { altitude, estimated } = result
+      if (estimated) estimatedPoints++
+
+      const source = sources.get(result.source)
+      if (source) {
+        source.points++
+      } else {
+        sources.set(result.source, {
+          source: result.source,
+          sourceLabel: result.sourceLabel,
+          resolution: result.resolution,
+          verticalDatum: result.verticalDatum,
+          accuracy: result.accuracy,
+          estimated,
+          points: 1
+        })
+      }
       
-      // Fetch altitude for each interpolated point
-      for (let j = 0; j < interpolatedPoints.length; j++) {
-        const point = interpolatedPoints[j]
-        const altitude = await this.getAltitude(point.lat, point.lng)
-        
-        const altitudePoint: AltitudePoint = {
-          lat: point.lat,
-          lng: point.lng,
-          altitude,
-          distance: totalDistance
-        }
-        
-        // Calculate distance from previous point
-        if (allPoints.length > 0) {
-          const prevPoint = allPoints[allPoints.length - 1]
-          const segmentDistance = this.calculateDistance(
-            prevPoint.lat, prevPoint.lng, 
-            point.lat, point.lng
-          )
-          totalDistance += segmentDistance
-          altitudePoint.distance = totalDistance
-          
-          // Calculate elevation gain/loss
-          const elevationDiff = altitude - prevPoint.altitude
-          if (elevationDiff > 0) {
-            elevationGain += elevationDiff
-          } else {
-            elevationLoss += Math.abs(elevationDiff)
-          }
-        }
-        
-        // Track min/max altitude
-        minAltitude = Math.min(minAltitude, altitude)
-        maxAltitude = Math.max(maxAltitude, altitude)
+      // Calculate distance and elevation change from previous point
+      if (allPoints.length > 0) {
+        const prevPoint = allPoints[allPoints.length - 1]
+        totalDistance += this.calculateDistance(
+          prevPoint.lat, prevPoint.lng, 
+          point.lat, point.lng
+        )
         
-        allPoints.push(altitudePoint)
-        
-        // Add small delay to avoid overwhelming APIs
-        if (j > 0 && j % 10 === 0) {
-          await new Promise(resolve => setTimeout(resolve, 100))
+        const elevationDiff = altitude - prevPoint.altitude
+        if (elevationDiff > 0) {
+          elevationGain += elevationDiff
+        } else {
+          elevationLoss += Math.abs(elevationDiff)
         }
       }
-    }
+      
+      // Track min/max altitude
+      minAltitude = Math.min(minAltitude, altitude)
+      maxAltitude = Math.max(maxAltitude, altitude)
+      
+      allPoints.push({
+        lat: point.lat,
+        lng: point.lng,
+        altitude,
+        distance: totalDistance,
+        source: result.source,
+        estimated
+      })
+    })
 
     return {
       points: allPoints,
@@ -503,29 +646,25 @@ class AltitudeService {
       elevationGain: Math.round(elevationGain),
       elevationLoss: Math.round(elevationLoss),
       minAltitude: minAltitude === Infinity ? 0 : minAltitude,
-      maxAltitude: maxAltitude === -Infinity ? 0 : maxAltitude
+      maxAltitude: maxAltitude === -Infinity ? 0 : maxAltitude,
+      estimatedPoints,
+      sources: [...sources.values()].sort((a, b) => b.points - a.points)
     }
   }
 
   /**
    * Get altitude profile for route points (simplified for UI responsiveness)
    */
-  async getRouteAltitudeProfile(routePoints: Array<{lat: number, lng: number}>): Promise<AltitudePoint[]> {
-    const profile: AltitudePoint[] = []
+  async getRouteAltitudeProfile(routePoints: Array<{lat: number, lng: number}>, preferredSource = 'auto', options: AltitudeRequestOptions = {}): Promise<AltitudePoint[]> {
+    const elevations = await this.getAltitudes(routePoints, preferredSource, options)
     
-    for (const point of routePoints) {
-      const altitude = await this.getAltitude(point.lat, point.lng)
-      profile.push({
-        lat: point.lat,
-        lng: point.lng,
-        altitude
-      })
-      
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 200))
-    }
-    
-    return profile
+    return routePoints.map((point, index) => ({
+      lat: point.lat,
+      lng: point.lng,
+      altitude: elevations[index].altitude,
+      source: elevations[index].source,
+      estimated: elevations[index].estimated
+    }))
   }
 
   /**
@@ -562,81 +701,27 @@ class AltitudeService {
   }
 
   /**
-   * Get service status and available APIs with improved error categorization
+   * Send a test request to every remote provider, ignoring open circuits. Results
+   * are recorded in the provider health tracker.
    */
-  async getServiceStatus(): Promise<{ available: string[], unavailable: string[] }> {
-    const available: string[] = []
-    const unavailable: string[] = []
-    
-    // Always show regional estimates as available first
-    available.push('Regional Altitude Estimates (Always available)')
+  async probeProviders(): Promise<void> {
+    const remote = elevationProviders.list().filter(provider => !provider.lookup)
     
-    for (const api of this.PRIMARY_APIS) {
+    await Promise.all(remote.map(async (provider) => {
+      // Test with Toulouse coordinates, or the centre of a regional provider's coverage
+      const bbox = provider.coverage?.[0]?.bbox
+      const testPoint = !bbox || providerCovers(provider, 43.6047, 1.4442)
+        ? { lat: 43.6047, lng: 1.4442 }
+        : { lat: (bbox.south + bbox.north) / 2, lng: (bbox.west + bbox.east) / 2 }
       try {
-        // Test with Toulouse coordinates
-        const testUrl = api.formatUrl(43.6047, 1.4442)
-        const controller = new AbortController()
-        const timeoutId = setTimeout(() => controller.abort(), 5000)
-        
-        const fetchOptions: RequestInit = {
-          signal: controller.signal,
-          method: (api as any).method || 'GET',
-          mode: 'cors',
-          cache: 'no-cache',
-          credentials: 'omit',
-          headers: {
-            ...(api as any).headers,
-            'User-Agent': 'GPS-Trajectory-Planner/1.0'
-          }
-        }
-        
-        // Add body for POST requests
-        if ((api as any).method === 'POST' && (api as any).body) {
-          fetchOptions.body = (api as any).body(43.6047, 1.4442)
-        }
-        
-        const response = await fetch(testUrl, fetchOptions)
-        
-        clearTimeout(timeoutId)
-        
-        if (response.ok) {
-          // Try to parse the response to ensure it's valid
-          const data = await response.json()
-          const elevation = api.parseResponse(data)
-          
-          if (typeof elevation === 'number' && !isNaN(elevation) && elevation !== null) {
-            available.push(`${api.name} (Live: ${elevation}m)`)
-          } else {
-            unavailable.push(`${api.name} (Invalid response format)`)
-          }
-        } else {
-          unavailable.push(`${api.name} (HTTP ${response.status}: ${response.statusText})`)
-        }
+        await this.requestElevations(provider, [testPoint])
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error)
-        let friendlyError = ''
-        
-        if (errorMessage.includes('CORS') || errorMessage.includes('cors') || errorMessage.includes('Cross-Origin')) {
-          friendlyError = 'CORS blocked by browser security'
-        } else if (errorMessage.includes('AbortError') || errorMessage.includes('timeout')) {
-          friendlyError = 'Request timeout'
-        } else if (errorMessage.includes('TypeError') && errorMessage.includes('fetch')) {
-          friendlyError = 'Network error or API unavailable'
-        } else if (errorMessage.includes('NetworkError') || errorMessage.includes('Failed to fetch')) {
-          friendlyError = 'Network connection issue'
-        } else if (errorMessage.includes('SyntaxError')) {
-          friendlyError = 'Invalid response format'
-        } else {
-          friendlyError = errorMessage.substring(0, 30) + (errorMessage.length > 30 ? '...' : '')
-        }
-        
-        unavailable.push(`${api.name} (${friendlyError})`)
+        console.warn(`${provider.label} probe failed: ${this.describeError(error)}`)
       }
-    }
-    
-    return { available, unavailable }
+    }))
   }
 }
 
 export const altitudeService = new AltitudeService()
-export type { AltitudePoint, AltitudeProfile }
\ No newline at end of file
+export { describeProvenance }
+export type { AltitudePoint, AltitudeProfile, AltitudeRequestOptions, ElevationProvenance, ElevationResult, ProfileSource }
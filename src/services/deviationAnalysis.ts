@@ -0,0 +1,215 @@
+// Plan-vs-actual deviation analysis
+// Projects every sample of a recorded track onto the planned route and measures how far
+// it strays sideways, how far ahead or behind schedule it is, and how its altitude and
+// timing compare with the plan at that point.
+
+import type { RecordedTrack, RoutePoint } from '../types/trajectory'
+
+interface DeviationSample {
+  lat: number
+  lng: number
+  /** Distance along the planned route of the closest point, in meters */
+  distance: number
+  /** Signed distance from the route in meters; positive is right of the direction of travel */
+  crossTrack: number
+  /**
+   * Distance ahead (positive) or behind (negative) the planned position at the same
+   * elapsed time, in meters; null without timestamps
+   */
+  alongTrack: number | null
+  /** Recorded minus planned altitude in meters; null when the track has no altitude */
+  altitude: number | null
+  /** Seconds late (positive) or early (negative) reaching this point of the route */
+  timing: number | null
+  /** Seconds since the first timed track sample */
+  elapsed: number | null
+}
+
+interface DeviationStats {
+  count: number
+  mean: number
+  /** Root mean square of the signed values */
+  rms: number
+  /** Largest absolute value, keeping its sign */
+  max: number
+  /** Percentiles of the absolute values */
+  p50: number
+  p95: number
+}
+
+type DeviationMetric = 'crossTrack' | 'alongTrack' | 'altitude' | 'timing'
+
+interface DeviationAnalysis {
+  samples: DeviationSample[]
+  /** Null for metrics the track has no data for */
+  stats: Record<DeviationMetric, DeviationStats | null>
+  /** Length of the planned route in meters */
+  routeLength: number
+}
+
+const DEVIATION_METRICS: Array<{ id: DeviationMetric, label: string, unit: string }> = [
+  { id: 'crossTrack', label: 'Cross-track', unit: 'm' },
+  { id: 'alongTrack', label: 'Along-track', unit: 'm' },
+  { id: 'altitude', label: 'Altitude', unit: 'm' },
+  { id: 'timing', label: 'Timing', unit: 's' }
+]
+
+const EARTH_RADIUS = 6371000
+
+interface PlanSegment {
+  /** Start and end in local meters (x east, y north) */
+  ax: number
+  ay: number
+  bx: number
+  by: number
+  length: number
+  /** Route distance at the segment start */
+  startDistance: number
+  from: RoutePoint
+  to: RoutePoint
+}
+
+/**
+ * Equirectangular projection around a reference latitude; accurate to well under a
+ * percent over the few tens of kilometers a planned route spans
+ */
+function createProjection(referenceLat: number) {
+  const cosLat = Math.cos(referenceLat * Math.PI / 180)
+  return (lat: number, lng: number) => ({
+    x: lng * Math.PI / 180 * EARTH_RADIUS * cosLat,
+    y: lat * Math.PI / 180 * EARTH_RADIUS
+  })
+}
+
+function buildSegments(plan: RoutePoint[], project: ReturnType<typeof createProjection>): PlanSegment[] {
+  const segments: PlanSegment[] = []
+  let startDistance = 0
+
+  for (let i = 1; i < plan.length; i++) {
+    const a = project(plan[i - 1].lat, plan[i - 1].lng)
+    const b = project(plan[i].lat, plan[i].lng)
+    const length = Math.hypot(b.x - a.x, b.y - a.y)
+    segments.push({ ax: a.x, ay: a.y, bx: b.x, by: b.y, length, startDistance, from: plan[i - 1], to: plan[i] })
+    startDistance += length
+  }
+
+  return segments
+}
+
+function interpolate(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+/**
+ * Planned route distance reached at an elapsed time, from the waypoint timestamps
+ */
+function plannedDistanceAt(segments: PlanSegment[], elapsed: number): number {
+  const start = segments[0].from.timestamp
+  for (const segment of segments) {
+    const from = segment.from.timestamp - start
+    const to = segment.to.timestamp - start
+    if (elapsed <= to) {
+      const t = to > from ? Math.max(0, (elapsed - from) / (to - from)) : 1
+      return segment.startDistance + segment.length * t
+    }
+  }
+  const last = segments[segments.length - 1]
+  return last.startDistance + last.length
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  const index = (sorted.length - 1) * fraction
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return interpolate(sorted[lower], sorted[upper], index - lower)
+}
+
+function computeStats(values: Array<number | null>): DeviationStats | null {
+  const present = values.filter((value): value is number => value !== null)
+  if (present.length === 0) return null
+
+  const absolute = present.map(Math.abs).sort((a, b) => a - b)
+  const max = present.reduce((worst, value) => Math.abs(value) > Math.abs(worst) ? value : worst, 0)
+  return {
+    count: present.length,
+    mean: present.reduce((sum, value) => sum + value, 0) / present.length,
+    rms: Math.sqrt(present.reduce((sum, value) => sum + value * value, 0) / present.length),
+    max,
+    p50: percentile(absolute, 0.5),
+    p95: percentile(absolute, 0.95)
+  }
+}
+
+/**
+ * Compare a recorded track with the planned route. Each sample is matched to the
+ * closest point of the route; elapsed time counts from the first sample and is
+ * compared with the waypoint timestamps, which count from the first waypoint.
+ */
+export function analyzeDeviation(plan: RoutePoint[], track: RecordedTrack): DeviationAnalysis {
+  if (plan.length < 2) {
+    throw new Error('The planned route needs at least two waypoints')
+  }
+  if (track.points.length === 0) {
+    throw new Error('The recorded track has no samples')
+  }
+
+  const project = createProjection(plan[0].lat)
+  const segments = buildSegments(plan, project)
+  const routeLength = segments.reduce((sum, segment) => sum + segment.length, 0)
+  const planStart = plan[0].timestamp
+  const trackStart = track.points.find(point => point.time !== null)?.time ?? null
+
+  const samples = track.points.map(point => {
+    const p = project(point.lat, point.lng)
+
+    // Closest point over all segments
+    let best = { distanceSq: Infinity, t: 0, cross: 0, segment: segments[0] }
+    for (const segment of segments) {
+      const dx = segment.bx - segment.ax
+      const dy = segment.by - segment.ay
+      const t = segment.length > 0
+        ? Math.min(1, Math.max(0, ((p.x - segment.ax) * dx + (p.y - segment.ay) * dy) / (segment.length ** 2)))
+        : 0
+      const cx = segment.ax + dx * t
+      const cy = segment.ay + dy * t
+      const distanceSq = (p.x - cx) ** 2 + (p.y - cy) ** 2
+      if (distanceSq < best.distanceSq) {
+        // Sign from the cross product: negative means the sample is right of the segment
+        const side = dx * (p.y - segment.ay) - dy * (p.x - segment.ax)
+        best = { distanceSq, t, cross: Math.sqrt(distanceSq) * (side > 0 ? -1 : 1), segment }
+      }
+    }
+
+    const { segment, t } = best
+    const distance = segment.startDistance + segment.length * t
+    const plannedAltitude = interpolate(segment.from.altitude, segment.to.altitude, t)
+    const plannedTime = interpolate(segment.from.timestamp, segment.to.timestamp, t) - planStart
+    const elapsed = point.time !== null && trackStart !== null ? (point.time - trackStart) / 1000 : null
+
+    const sample: DeviationSample = {
+      lat: point.lat,
+      lng: point.lng,
+      distance,
+      crossTrack: best.cross,
+      alongTrack: elapsed !== null ? distance - plannedDistanceAt(segments, elapsed) : null,
+      altitude: point.altitude !== null ? point.altitude - plannedAltitude : null,
+      timing: elapsed !== null ? elapsed - plannedTime : null,
+      elapsed
+    }
+    return sample
+  })
+
+  return {
+    samples,
+    stats: {
+      crossTrack: computeStats(samples.map(sample => sample.crossTrack)),
+      alongTrack: computeStats(samples.map(sample => sample.alongTrack)),
+      altitude: computeStats(samples.map(sample => sample.altitude)),
+      timing: computeStats(samples.map(sample => sample.timing))
+    },
+    routeLength
+  }
+}
+
+export { DEVIATION_METRICS }
+export type { DeviationAnalysis, DeviationMetric, DeviationSample, DeviationStats }
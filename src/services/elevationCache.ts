@@ -0,0 +1,175 @@
+// Persistent elevation cache
+// Stores provider answers in IndexedDB keyed by provider id and quantized coordinates,
+// so repeated lookups for the same route are served locally, including offline.
+
+import { isIndexedDBAvailable, openDatabase, promisifyRequest, transactionDone } from '../lib/idb'
+import type { LatLngPoint } from './elevationProviders'
+
+interface CachedElevation {
+  key: string
+  providerId: string
+  lat: number
+  lng: number
+  altitude: number
+  storedAt: number
+}
+
+const DB_NAME = 'gps-trajectory-planner-elevation-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'elevations'
+
+// 1e-5° is about 1.1 m, well below the 5 m profile spacing
+const COORDINATE_PRECISION = 5
+// Entries older than this are treated as misses
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+// Oldest entries are evicted beyond this count
+const MAX_ENTRIES = 200000
+
+class ElevationCache {
+  private dbPromise: Promise<IDBDatabase | null> | null = null
+  // Entries at the last real count plus those written since, so writes skip count()
+  // until the cache may be full; overwrites and other pages only shift the next count
+  private estimatedCount: number | null = null
+
+  private getDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = isIndexedDBAvailable()
+        ? openDatabase(DB_NAME, DB_VERSION, (db) => {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' })
+            store.createIndex('storedAt', 'storedAt')
+          }).catch(error => {
+            console.warn('Elevation cache unavailable:', error)
+            return null
+          })
+        : Promise.resolve(null)
+    }
+    return this.dbPromise
+  }
+
+  /**
+   * Cache key for a provider and location, quantized so nearby lookups share an entry
+   */
+  private getKey(providerId: string, lat: number, lng: number): string {
+    return `${providerId}:${lat.toFixed(COORDINATE_PRECISION)}:${lng.toFixed(COORDINATE_PRECISION)}`
+  }
+
+  /**
+   * Look up cached altitudes. For each point the providers are tried in the given
+   * order and the first fresh entry wins; points without one are null.
+   */
+  async getMany(points: LatLngPoint[], providerIds: string[]): Promise<Array<CachedElevation | null>> {
+    const results: Array<CachedElevation | null> = new Array(points.length).fill(null)
+    const db = await this.getDatabase()
+    if (!db || points.length === 0 || providerIds.length === 0) return results
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readonly')
+      const store = transaction.objectStore(STORE_NAME)
+      const now = Date.now()
+
+      await Promise.all(points.map(async (point, index) => {
+        for (const providerId of providerIds) {
+          const entry: CachedElevation | undefined = await promisifyRequest(
+            store.get(this.getKey(providerId, point.lat, point.lng))
+          )
+          if (entry && now - entry.storedAt < CACHE_TTL_MS) {
+            results[index] = entry
+            return
+          }
+        }
+      }))
+    } catch (error) {
+      console.warn('Elevation cache read failed:', error)
+    }
+
+    return results
+  }
+
+  /**
+   * Store altitudes returned by a provider; null entries are skipped
+   */
+  async setMany(providerId: string, points: LatLngPoint[], altitudes: Array<number | null>): Promise<void> {
+    const db = await this.getDatabase()
+    if (!db) return
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      const store = transaction.objectStore(STORE_NAME)
+      const storedAt = Date.now()
+
+      let written = 0
+      points.forEach((point, index) => {
+        const altitude = altitudes[index]
+        if (altitude === null || altitude === undefined) return
+        written++
+        store.put({
+          key: this.getKey(providerId, point.lat, point.lng),
+          providerId,
+          lat: point.lat,
+          lng: point.lng,
+          altitude,
+          storedAt
+        } satisfies CachedElevation)
+      })
+
+      await transactionDone(transaction)
+      await this.evictOverflow(db, written)
+    } catch (error) {
+      console.warn('Elevation cache write failed:', error)
+    }
+  }
+
+  /**
+   * Delete the oldest entries once the cache grows past MAX_ENTRIES, after `written`
+   * entries were stored
+   */
+  private async evictOverflow(db: IDBDatabase, written: number): Promise<void> {
+    if (this.estimatedCount !== null) {
+      this.estimatedCount += written
+      if (this.estimatedCount <= MAX_ENTRIES) return
+    }
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const count = await promisifyRequest(store.count())
+    let excess = count - MAX_ENTRIES
+    this.estimatedCount = Math.min(count, MAX_ENTRIES)
+    if (excess <= 0) return
+
+    const cursorRequest = store.index('storedAt').openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor || excess <= 0) return
+      cursor.delete()
+      excess--
+      cursor.continue()
+    }
+    await transactionDone(transaction)
+  }
+
+  /**
+   * Number of cached altitudes
+   */
+  async count(): Promise<number> {
+    const db = await this.getDatabase()
+    if (!db) return 0
+    const count = await promisifyRequest(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).count())
+    this.estimatedCount = count
+    return count
+  }
+
+  /**
+   * Remove every cached altitude
+   */
+  async clear(): Promise<void> {
+    const db = await this.getDatabase()
+    if (!db) return
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).clear()
+    await transactionDone(transaction)
+    this.estimatedCount = 0
+  }
+}
+
+export const elevationCache = new ElevationCache()
+export type { CachedElevation }
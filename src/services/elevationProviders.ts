@@ -0,0 +1,327 @@
+// Elevation provider registry
+// Every elevation source (public APIs, in-house DEM endpoints, local DEM files) is described by an
+// ElevationProvider and registered here. The data source select, the service status
+// panel and the AltitudeService fallback chain all read from this registry.
+
+interface LatLngPoint {
+  lat: number
+  lng: number
+}
+
+interface BoundingBox {
+  south: number
+  west: number
+  north: number
+  east: number
+}
+
+/**
+ * Area served by a provider: a bounding box, optionally refined by a polygon
+ * given as [lat, lng] vertices
+ */
+interface CoverageArea {
+  bbox: BoundingBox
+  polygon?: Array<[number, number]>
+}
+
+interface ElevationRequest {
+  url: string
+  init?: RequestInit
+}
+
+interface ElevationProvider {
+  /** Stable identifier, also used as the data source value */
+  id: string
+  /** Human readable name shown in the UI */
+  label: string
+  /** Optional detail shown next to the label, e.g. resolution and extent */
+  description?: string
+  /** Areas where the provider has data; omit for global coverage */
+  coverage?: CoverageArea[]
+  /** Nominal horizontal resolution of the underlying dataset in meters */
+  resolution: number
+  /** Vertical reference of the returned heights, e.g. 'EGM96' or 'NGF-IGN69' */
+  verticalDatum: string
+  /** Typical vertical error of the dataset in meters */
+  verticalAccuracy: number
+  /** Lower numbers are tried first among providers with the same coverage scope */
+  priority: number
+  /** Maximum number of locations per request (1 for single-point APIs) */
+  maxBatchSize: number
+  /** Request timeout in milliseconds */
+  timeout: number
+  /** Build the HTTP request for a batch of at most maxBatchSize points */
+  buildRequest?: (points: LatLngPoint[]) => ElevationRequest
+  /**
+   * Parse a JSON response into one elevation (or null) per requested point. The body
+   * is whatever the endpoint sent, so it has to be checked before use.
+   */
+  parseResponse?: (data: unknown, points: LatLngPoint[]) => Array<number | null>
+  /**
+   * Answer points directly instead of over HTTP. Used by local sources such as
+   * imported DEM files; these are tried before remote providers and not cached.
+   */
+  lookup?: (points: LatLngPoint[]) => Promise<Array<number | null>>
+}
+
+const JSON_HEADERS = {
+  'Accept': 'application/json',
+  'User-Agent': 'GPS-Trajectory-Planner/1.0'
+}
+
+const EUROPE_COVERAGE: CoverageArea[] = [
+  { bbox: { south: 35, west: -10, north: 70, east: 40 } }
+]
+
+const FRANCE_COVERAGE: CoverageArea[] = [
+  { bbox: { south: 41.3, west: -5.2, north: 51.1, east: 9.6 } },     // Mainland and Corsica
+  { bbox: { south: 14.4, west: -63.2, north: 18.1, east: -60.8 } },  // Antilles
+  { bbox: { south: 3.8, west: -54.6, north: 5.8, east: -51.6 } },    // Guyane
+  { bbox: { south: -21.4, west: 55.2, north: -20.9, east: 55.8 } },  // Réunion
+  { bbox: { south: -12.8, west: 45.0, north: -12.6, east: 45.3 } }   // Mayotte
+]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * An elevation value from a response, null unless it is a finite number
+ */
+function toElevation(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+/**
+ * Parse a `{ results: [{ elevation }] }` response into one value per requested location
+ */
+function parseResultsArray(data: unknown): Array<number | null> {
+  if (!isRecord(data) || !Array.isArray(data.results)) return []
+  return data.results.map((result: unknown) => isRecord(result) ? toElevation(result.elevation) : null)
+}
+
+/**
+ * Build an OpenTopoData provider for one of its public datasets
+ */
+function createOpenTopoDataProvider(options: {
+  id: string
+  label: string
+  dataset: string
+  resolution: number
+  verticalDatum: string
+  verticalAccuracy: number
+  priority: number
+  coverage?: CoverageArea[]
+}): ElevationProvider {
+  return {
+    id: options.id,
+    label: options.label,
+    coverage: options.coverage,
+    resolution: options.resolution,
+    verticalDatum: options.verticalDatum,
+    verticalAccuracy: options.verticalAccuracy,
+    priority: options.priority,
+    maxBatchSize: 100,
+    timeout: 6000,
+    buildRequest: (points) => ({
+      url: `https://api.opentopodata.org/v1/${options.dataset}?locations=${
+        points.map(p => `${p.lat.toFixed(6)},${p.lng.toFixed(6)}`).join('|')
+      }`,
+      init: { method: 'GET', headers: JSON_HEADERS }
+    }),
+    parseResponse: (data) => parseResultsArray(data)
+  }
+}
+
+const BUILTIN_PROVIDERS: ElevationProvider[] = [
+  createOpenTopoDataProvider({
+    id: 'opentopodata-srtm30m',
+    label: 'OpenTopoData SRTM30m (Global)',
+    dataset: 'srtm30m',
+    resolution: 30,
+    verticalDatum: 'EGM96',
+    verticalAccuracy: 16,
+    priority: 1
+  }),
+  createOpenTopoDataProvider({
+    id: 'opentopodata-eudem',
+    label: 'OpenTopoData EU-DEM (Europe)',
+    dataset: 'eudem25m',
+    resolution: 25,
+    verticalDatum: 'EVRS2000',
+    verticalAccuracy: 7,
+    priority: 2,
+    coverage: EUROPE_COVERAGE
+  }),
+  {
+    id: 'open-elevation',
+    label: 'Open-Elevation (Global)',
+    resolution: 30,
+    // Serves SRTM data
+    verticalDatum: 'EGM96',
+    verticalAccuracy: 16,
+    priority: 3,
+    maxBatchSize: 200,
+    timeout: 6000,
+    buildRequest: (points) => ({
+      url: 'https://api.open-elevation.com/api/v1/lookup',
+      init: {
+        method: 'POST',
+        headers: { ...JSON_HEADERS, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locations: points.map(p => ({ latitude: p.lat, longitude: p.lng }))
+        })
+      }
+    }),
+    parseResponse: (data) => parseResultsArray(data)
+  },
+  {
+    id: 'ign-rge-alti',
+    label: 'IGN RGE ALTI (France)',
+    coverage: FRANCE_COVERAGE,
+    resolution: 5,
+    verticalDatum: 'NGF-IGN69',
+    verticalAccuracy: 1,
+    priority: 4,
+    maxBatchSize: 1,
+    // Use longer timeout for WMS requests
+    timeout: 8000,
+    buildRequest: ([point]) => {
+      // IGN GeoPlateforme WMS service for high-resolution elevation
+      const { lat, lng } = point
+      const bbox = `${lng-0.001},${lat-0.001},${lng+0.001},${lat+0.001}`
+      return {
+        url: `https://data.geopf.fr/wms-r/wms?SERVICE=WMS&VERSION=1.3.0&REQUEST=GetFeatureInfo&LAYERS=ELEVATIONGRIDCOVERAGE.HIGHRES.QUALITY&QUERY_LAYERS=ELEVATIONGRIDCOVERAGE.HIGHRES.QUALITY&CRS=EPSG:4326&BBOX=${bbox}&WIDTH=1&HEIGHT=1&I=0&J=0&INFO_FORMAT=application/json`,
+        init: { method: 'GET', headers: JSON_HEADERS }
+      }
+    },
+    parseResponse: (data) => {
+      // GeoPlateforme WMS returns features with properties
+      const feature = isRecord(data) && Array.isArray(data.features) ? data.features[0] : null
+      const properties = isRecord(feature) ? feature.properties : null
+      return [isRecord(properties) ? toElevation(properties.GRAY_INDEX) : null]
+    }
+  },
+  createOpenTopoDataProvider({
+    id: 'opentopodata-aster',
+    label: 'OpenTopoData ASTER30m (Global)',
+    dataset: 'aster30m',
+    resolution: 30,
+    verticalDatum: 'EGM96',
+    verticalAccuracy: 17,
+    priority: 5
+  })
+]
+
+/**
+ * Ray-casting point-in-polygon test on [lat, lng] vertices
+ */
+function isInPolygon(lat: number, lng: number, polygon: Array<[number, number]>): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i]
+    const [latJ, lngJ] = polygon[j]
+    if ((latI > lat) !== (latJ > lat) &&
+        lng < (lngJ - lngI) * (lat - latI) / (latJ - latI) + lngI) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Check whether a provider has data for a location
+ */
+function providerCovers(provider: ElevationProvider, lat: number, lng: number): boolean {
+  if (!provider.coverage) return true
+  return provider.coverage.some(({ bbox, polygon }) =>
+    lat >= bbox.south && lat <= bbox.north &&
+    lng >= bbox.west && lng <= bbox.east &&
+    (!polygon || isInPolygon(lat, lng, polygon))
+  )
+}
+
+class ElevationProviderRegistry {
+  private providers = new Map<string, ElevationProvider>()
+  private listeners = new Set<() => void>()
+  private snapshot: ElevationProvider[] = []
+
+  constructor(providers: ElevationProvider[]) {
+    providers.forEach(provider => this.providers.set(provider.id, provider))
+    this.updateSnapshot()
+  }
+
+  /**
+   * Add a provider, replacing any existing provider with the same id
+   */
+  register(provider: ElevationProvider): () => void {
+    if (provider.maxBatchSize < 1) {
+      throw new Error(`Provider ${provider.id} must accept at least one location per request`)
+    }
+    if (!provider.lookup && !(provider.buildRequest && provider.parseResponse)) {
+      throw new Error(`Provider ${provider.id} needs either lookup or buildRequest and parseResponse`)
+    }
+    this.providers.set(provider.id, provider)
+    this.notify()
+    return () => this.unregister(provider.id)
+  }
+
+  /**
+   * Remove a provider; returns false if it was not registered
+   */
+  unregister(id: string): boolean {
+    const removed = this.providers.delete(id)
+    if (removed) this.notify()
+    return removed
+  }
+
+  get(id: string): ElevationProvider | undefined {
+    return this.providers.get(id)
+  }
+
+  /**
+   * All registered providers in priority order. The returned array is stable
+   * between changes so it can be used with useSyncExternalStore.
+   */
+  list(): ElevationProvider[] {
+    return this.snapshot
+  }
+
+  /**
+   * Providers covering a location: local sources first, then regional datasets
+   * (finest resolution wins), then global ones by priority
+   */
+  forLocation(lat: number, lng: number): ElevationProvider[] {
+    const byResolution = (a: ElevationProvider, b: ElevationProvider) =>
+      a.resolution - b.resolution || a.priority - b.priority
+    const covering = this.snapshot.filter(provider => providerCovers(provider, lat, lng))
+    const local = covering
+      .filter(provider => provider.lookup)
+      .sort(byResolution)
+    const regional = covering
+      .filter(provider => !provider.lookup && provider.coverage)
+      .sort(byResolution)
+    const global = covering.filter(provider => !provider.lookup && !provider.coverage)
+    return [...local, ...regional, ...global]
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private updateSnapshot() {
+    this.snapshot = [...this.providers.values()].sort((a, b) => a.priority - b.priority)
+  }
+
+  private notify() {
+    this.updateSnapshot()
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const elevationProviders = new ElevationProviderRegistry(BUILTIN_PROVIDERS)
+export { providerCovers }
+export type { BoundingBox, CoverageArea, ElevationProvider, ElevationRequest, LatLngPoint }
@@ -0,0 +1,101 @@
+// Helpers shared by the trajectory file formats
+
+import type { RoutePoint, TrackPoint } from '../../types/trajectory'
+
+/** Result of parsing a recorded log (NMEA, IGC, TCX) */
+export interface TrackLogImport {
+  name: string | null
+  points: TrackPoint[]
+}
+
+// Used for imported points that carry no elevation, as for points added on the map
+export const DEFAULT_ALTITUDE = 100
+// Seconds between imported points that carry no time, as for points added on the map
+export const DEFAULT_POINT_INTERVAL = 10
+
+export function createRoutePointId(): string {
+  return `point_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Route point timestamps, in seconds from the first point, for absolute times in
+ * epoch milliseconds. Falls back to regular spacing unless every point has a time.
+ */
+export function toRelativeTimestamps(times: Array<number | null>): number[] {
+  if (times.length === 0 || times.some(time => time === null || isNaN(time))) {
+    return times.map((_, index) => index * DEFAULT_POINT_INTERVAL)
+  }
+  const start = times[0]!
+  return times.map(time => Math.round((time! - start) / 1000))
+}
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function distanceBetween(a: { lat: number, lng: number }, b: { lat: number, lng: number }): number {
+  const R = 6371000 // Earth's radius in meters
+  const dLat = (b.lat - a.lat) * Math.PI / 180
+  const dLng = (b.lng - a.lng) * Math.PI / 180
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLng / 2) ** 2
+  return 2 * R * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h))
+}
+
+/**
+ * Absolute time of a route point given the trajectory start time
+ */
+export function toAbsoluteTime(startTime: Date, point: RoutePoint): Date {
+  return new Date(startTime.getTime() + point.timestamp * 1000)
+}
+
+/**
+ * "1 route", "2 routes"; used in import summaries
+ */
+export function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`
+}
+
+/**
+ * "Waypoint 2, Waypoint 5 and 3 more"; used to say which points an error is about
+ */
+export function listNames(names: string[], limit = 3): string {
+  if (names.length <= limit + 1) {
+    return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('')
+  }
+  return `${names.slice(0, limit).join(', ')} and ${names.length - limit} more`
+}
+
+/**
+ * Parse a number, returning null for missing or invalid values
+ */
+export function parseNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') return null
+  const number = Number(value)
+  return isNaN(number) ? null : number
+}
+
+/**
+ * A point read from a file before it becomes a route point. Times are epoch milliseconds.
+ */
+export interface ParsedPoint {
+  lat: number
+  lng: number
+  altitude?: number | null
+  time?: number | null
+  name?: string | null
+}
+
+/**
+ * Build route points from parsed coordinates, filling in names, altitudes and times
+ */
+export function toRoutePoints(parsed: ParsedPoint[]): RoutePoint[] {
+  const timestamps = toRelativeTimestamps(parsed.map(point => point.time ?? null))
+  return parsed.map((point, index) => ({
+    id: createRoutePointId(),
+    lat: point.lat,
+    lng: point.lng,
+    altitude: point.altitude ?? DEFAULT_ALTITUDE,
+    timestamp: timestamps[index],
+    name: point.name || `Waypoint ${index + 1}`
+  }))
+}
@@ -0,0 +1,311 @@
+// CSV import and export
+// Imports spreadsheets with arbitrary columns through an explicit column mapping, with
+// a choice of delimiter, decimal separator and altitude unit. Coordinates may be decimal
+// degrees or degrees/minutes/seconds strings. Exports route points and profile points.
+
+import type { RoutePoint, TrajectoryData } from '../../types/trajectory'
+import type { AltitudeProfile } from '../altitudeService'
+import { toAbsoluteTime, toRoutePoints } from './common'
+import type { ParsedPoint } from './common'
+
+type CsvDelimiter = ',' | ';' | '\t' | '|'
+type CsvDecimalSeparator = '.' | ','
+type CsvAltitudeUnit = 'm' | 'ft'
+type CsvField = 'lat' | 'lng' | 'altitude' | 'time' | 'name'
+
+/** Column index for each field, null when the file has no such column */
+type CsvColumnMapping = Record<CsvField, number | null>
+
+interface CsvImportOptions {
+  delimiter: CsvDelimiter
+  decimalSeparator: CsvDecimalSeparator
+  hasHeader: boolean
+  altitudeUnit: CsvAltitudeUnit
+  mapping: CsvColumnMapping
+}
+
+interface CsvImportResult {
+  points: RoutePoint[]
+  /** Data rows without a readable latitude and longitude */
+  skippedRows: number
+}
+
+const CSV_DELIMITERS: Array<{ id: CsvDelimiter, label: string }> = [
+  { id: ',', label: 'Comma' },
+  { id: ';', label: 'Semicolon' },
+  { id: '\t', label: 'Tab' },
+  { id: '|', label: 'Pipe' }
+]
+
+const CSV_FIELDS: Array<{ id: CsvField, label: string, required: boolean }> = [
+  { id: 'lat', label: 'Latitude', required: true },
+  { id: 'lng', label: 'Longitude', required: true },
+  { id: 'altitude', label: 'Altitude', required: false },
+  { id: 'time', label: 'Time', required: false },
+  { id: 'name', label: 'Name', required: false }
+]
+
+// Header names recognised when guessing the column mapping, compared lower-case
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  lat: ['lat', 'latitude', 'y'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'x'],
+  altitude: ['alt', 'altitude', 'ele', 'elevation', 'height', 'z', 'altitude_m', 'altitude (m)', 'elevation (m)'],
+  time: ['time', 'timestamp', 'datetime', 'date', 'seconds', 't'],
+  name: ['name', 'label', 'id', 'waypoint', 'description']
+}
+
+const FEET_TO_METERS = 0.3048
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain the delimiter, line
+ * breaks and doubled quotes.
+ */
+export function parseCsvRows(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true
+      cell = ''
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim())
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value !== ''))
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the most consistent columns.
+ * Decimal commas make a semicolon-separated file split just as consistently on commas,
+ * so delimiters whose fields read as numbers win first.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 10)
+  let best: CsvDelimiter = ','
+  let bestNumeric = 0
+  let bestScore = 0
+
+  CSV_DELIMITERS.forEach(({ id }) => {
+    const counts = lines.map(line => line.split(id).length - 1)
+    const min = Math.min(...counts)
+    if (min === 0) return
+    // Prefer delimiters found on every line, then the most columns
+    const score = min * 100 + counts.filter(count => count === counts[0]).length
+    // A comma can only be a decimal separator when it is not the delimiter
+    const fields = lines.flatMap(line => line.split(id))
+    const numeric = fields.filter(field => !isNaN(parseDecimal(field, id === ',' ? '.' : ','))).length / fields.length
+    if (numeric > bestNumeric || (numeric === bestNumeric && score > bestScore)) {
+      best = id
+      bestNumeric = numeric
+      bestScore = score
+    }
+  })
+
+  return best
+}
+
+/**
+ * Guess the column for each field from header names
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase())
+  const mapping = {} as CsvColumnMapping
+
+  CSV_FIELDS.forEach(({ id }) => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[id].includes(header))
+    mapping[id] = index >= 0 ? index : null
+  })
+
+  return mapping
+}
+
+/**
+ * Whether a row looks like a header rather than data: no cell parses as a coordinate
+ */
+export function looksLikeHeader(row: string[], decimalSeparator: CsvDecimalSeparator): boolean {
+  return row.every(cell => isNaN(parseDecimal(cell, decimalSeparator)))
+}
+
+/**
+ * Parse a plain decimal number, accepting a comma as the decimal separator if chosen
+ */
+export function parseDecimal(value: string, decimalSeparator: CsvDecimalSeparator): number {
+  let normalized = value.trim()
+  if (decimalSeparator === ',') {
+    normalized = normalized.replace(/\./g, '').replace(',', '.')
+  }
+  return normalized === '' || !/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(normalized) ? NaN : Number(normalized)
+}
+
+/**
+ * Parse a latitude or longitude given in decimal degrees or as a degrees/minutes/seconds
+ * string such as 45°12'30.5"N, N 45 12.5, 45:12:30 S or -1 30. Returns NaN when the
+ * value cannot be read.
+ */
+export function parseCoordinate(value: string, decimalSeparator: CsvDecimalSeparator): number {
+  const decimal = parseDecimal(value, decimalSeparator)
+  if (!isNaN(decimal)) return decimal
+
+  let text = value.trim().toUpperCase()
+  if (text === '') return NaN
+
+  let sign = 1
+  const hemisphere = text.match(/^[NSEWO]|[NSEWO]$/)
+  if (hemisphere) {
+    // O is used for west (Ouest/Oeste) in French and Spanish sources
+    if (hemisphere[0] === 'S' || hemisphere[0] === 'W' || hemisphere[0] === 'O') sign = -1
+    text = text.replace(/^[NSEWO]|[NSEWO]$/g, '').trim()
+  }
+  if (text.startsWith('-')) {
+    sign = -sign
+    text = text.slice(1)
+  }
+  if (decimalSeparator === ',') {
+    text = text.replace(/,/g, '.')
+  }
+
+  const parts = text.split(/[°º˚:'′"″\s]+/).filter(Boolean).map(Number)
+  if (parts.length === 0 || parts.length > 3 || parts.some(isNaN)) return NaN
+
+  const [degrees, minutes = 0, seconds = 0] = parts
+  if (minutes >= 60 || seconds >= 60) return NaN
+  return sign * (degrees + minutes / 60 + seconds / 3600)
+}
+
+/**
+ * Parse a time cell into epoch milliseconds. Plain numbers are seconds from the start
+ * of the route; anything else is read as a date.
+ */
+function parseTime(value: string, decimalSeparator: CsvDecimalSeparator): number | null {
+  if (value.trim() === '') return null
+  const seconds = parseDecimal(value, decimalSeparator)
+  if (!isNaN(seconds)) return seconds * 1000
+  const date = Date.parse(value)
+  return isNaN(date) ? null : date
+}
+
+function cellAt(row: string[], index: number | null): string {
+  return index === null ? '' : row[index] ?? ''
+}
+
+/**
+ * Convert parsed CSV rows into route points using a column mapping
+ */
+export function parseCsvPoints(rows: string[][], options: CsvImportOptions): CsvImportResult {
+  const { mapping, decimalSeparator } = options
+  const dataRows = options.hasHeader ? rows.slice(1) : rows
+  const parsed: ParsedPoint[] = []
+
+  dataRows.forEach(row => {
+    const lat = parseCoordinate(cellAt(row, mapping.lat), decimalSeparator)
+    const lng = parseCoordinate(cellAt(row, mapping.lng), decimalSeparator)
+    if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return
+
+    const altitude = parseDecimal(cellAt(row, mapping.altitude), decimalSeparator)
+    parsed.push({
+      lat,
+      lng,
+      altitude: isNaN(altitude)
+        ? null
+        : Math.round(options.altitudeUnit === 'ft' ? altitude * FEET_TO_METERS : altitude),
+      time: parseTime(cellAt(row, mapping.time), decimalSeparator),
+      name: cellAt(row, mapping.name) || null
+    })
+  })
+
+  return {
+    points: toRoutePoints(parsed),
+    skippedRows: dataRows.length - parsed.length
+  }
+}
+
+function formatCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function formatRows(header: string[], rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return [header, ...rows].map(row => row.map(formatCell).join(',')).join('\n') + '\n'
+}
+
+/**
+ * Serialize route points as comma separated values with a header row
+ */
+export function exportCsv(data: TrajectoryData): string {
+  const startTime = new Date(data.createdAt)
+  return formatRows(
+    ['index', 'name', 'lat', 'lng', 'altitude_m', 'timestamp_s', 'time', 'altitude_source', 'estimated'],
+    data.points.map((point, index) => [
+      index + 1,
+      point.name,
+      point.lat.toFixed(7),
+      point.lng.toFixed(7),
+      point.altitude,
+      point.timestamp,
+      toAbsoluteTime(startTime, point).toISOString(),
+      point.altitudeSource?.sourceLabel,
+      point.altitudeSource?.estimated
+    ])
+  )
+}
+
+/**
+ * Serialize the points of a detailed altitude profile
+ */
+export function exportProfileCsv(profile: AltitudeProfile): string {
+  return formatRows(
+    ['distance_m', 'lat', 'lng', 'altitude_m', 'source', 'estimated'],
+    profile.points.map(point => [
+      point.distance !== undefined ? point.distance.toFixed(1) : null,
+      point.lat.toFixed(7),
+      point.lng.toFixed(7),
+      point.altitude,
+      point.source,
+      point.estimated ?? false
+    ])
+  )
+}
+
+export { CSV_DELIMITERS, CSV_FIELDS }
+export type {
+  CsvAltitudeUnit,
+  CsvColumnMapping,
+  CsvDecimalSeparator,
+  CsvDelimiter,
+  CsvField,
+  CsvImportOptions,
+  CsvImportResult
+}
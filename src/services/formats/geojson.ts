@@ -0,0 +1,187 @@
+// GeoJSON (RFC 7946) import and export
+// Exports a FeatureCollection with the route as a 3D LineString, a Point feature per
+// waypoint and, when available, the detailed altitude profile as a second LineString.
+// Imports LineString, MultiLineString and Point collections. Exported features carry a
+// `kind` property (route, waypoint or profile) so our own files read back without guessing.
+
+import type { Feature, FeatureCollection, GeoJsonProperties, Geometry, LineString, Point, Position } from 'geojson'
+import type { RoutePoint, TrajectoryData } from '../../types/trajectory'
+import type { AltitudeProfile } from '../altitudeService'
+import { plural, toAbsoluteTime, toRoutePoints } from './common'
+import type { ParsedPoint } from './common'
+
+interface GeoJsonImport {
+  points: RoutePoint[]
+  name: string | null
+  /** What the points were read from, e.g. "2 lines" */
+  source: string
+}
+
+// RFC 7946 recommends no more precision than needed; 7 decimals is about 1 cm
+function toPosition(lat: number, lng: number, altitude: number): Position {
+  return [Number(lng.toFixed(7)), Number(lat.toFixed(7)), altitude]
+}
+
+/**
+ * Build a GeoJSON FeatureCollection for a trajectory and, optionally, its detailed
+ * altitude profile. Waypoint times are absolute ISO times as well as seconds from
+ * the first point.
+ */
+export function toGeoJson(
+  data: TrajectoryData,
+  profile: AltitudeProfile | null = null,
+  name = 'GPS Trajectory'
+): FeatureCollection {
+  const startTime = new Date(data.createdAt)
+
+  const route: Feature<LineString> = {
+    type: 'Feature',
+    properties: {
+      kind: 'route',
+      name,
+      totalDistance: data.totalDistance,
+      totalTime: data.totalTime,
+      createdAt: data.createdAt
+    },
+    geometry: {
+      type: 'LineString',
+      coordinates: data.points.map(point => toPosition(point.lat, point.lng, point.altitude))
+    }
+  }
+
+  const waypoints: Feature<Point>[] = data.points.map((point, index) => ({
+    type: 'Feature',
+    properties: {
+      kind: 'waypoint',
+      index,
+      name: point.name,
+      altitude: point.altitude,
+      timestamp: point.timestamp,
+      time: toAbsoluteTime(startTime, point).toISOString(),
+      altitudeSource: point.altitudeSource?.sourceLabel ?? null,
+      estimated: point.altitudeSource?.estimated ?? null
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: toPosition(point.lat, point.lng, point.altitude)
+    }
+  }))
+
+  const features: Feature[] = [route, ...waypoints]
+
+  if (profile && profile.points.length > 1) {
+    features.push({
+      type: 'Feature',
+      properties: {
+        kind: 'profile',
+        name: `${name} altitude profile`,
+        resolution: 5,
+        totalDistance: profile.totalDistance,
+        elevationGain: profile.elevationGain,
+        elevationLoss: profile.elevationLoss,
+        minAltitude: profile.minAltitude,
+        maxAltitude: profile.maxAltitude,
+        estimatedPoints: profile.estimatedPoints,
+        sources: profile.sources,
+        // Distance along the route of each coordinate, in meters
+        distances: profile.points.map(point => point.distance ?? null)
+      },
+      geometry: {
+        type: 'LineString',
+        coordinates: profile.points.map(point => toPosition(point.lat, point.lng, point.altitude))
+      }
+    })
+  }
+
+  return { type: 'FeatureCollection', features }
+}
+
+export function exportGeoJson(data: TrajectoryData, profile: AltitudeProfile | null = null, name?: string): string {
+  return JSON.stringify(toGeoJson(data, profile, name), null, 2)
+}
+
+function fromPosition(position: Position, properties: GeoJsonProperties = null): ParsedPoint {
+  const time = properties?.time
+  return {
+    lat: Number(position[1]),
+    lng: Number(position[0]),
+    altitude: position.length > 2 ? Number(position[2]) : null,
+    time: typeof time === 'string' ? Date.parse(time) : null,
+    name: typeof properties?.name === 'string' ? properties.name : null
+  }
+}
+
+// Flatten Features, FeatureCollections and GeometryCollections into geometry/properties pairs
+function collectGeometries(
+  object: FeatureCollection | Feature | Geometry,
+  properties: GeoJsonProperties = null
+): Array<{ geometry: Geometry, properties: GeoJsonProperties }> {
+  switch (object.type) {
+    case 'FeatureCollection':
+      return object.features.flatMap(feature => collectGeometries(feature))
+    case 'Feature':
+      return object.geometry ? collectGeometries(object.geometry, object.properties) : []
+    case 'GeometryCollection':
+      return object.geometries.flatMap(geometry => collectGeometries(geometry, properties))
+    default:
+      return [{ geometry: object, properties }]
+  }
+}
+
+/**
+ * Parse GeoJSON into route points. Lines are preferred (MultiLineString parts are joined
+ * in order), then points. When the points match the lines vertex for vertex, as in files
+ * written by exportGeoJson, the points are used for their names and times. Detailed
+ * profiles written by exportGeoJson are skipped.
+ */
+export function parseGeoJson(text: string): GeoJsonImport {
+  let object: FeatureCollection | Feature | Geometry
+  try {
+    object = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid GeoJSON: not a JSON document')
+  }
+  if (!object || typeof object !== 'object' || typeof object.type !== 'string') {
+    throw new Error('Invalid GeoJSON: missing type')
+  }
+
+  const geometries = collectGeometries(object)
+    .filter(({ properties }) => properties?.kind !== 'profile')
+
+  const lines = geometries.filter(({ geometry }) =>
+    geometry.type === 'LineString' || geometry.type === 'MultiLineString'
+  )
+  const lineCoordinates = lines.flatMap(({ geometry }) => {
+    const parts = geometry.type === 'LineString' ? [geometry.coordinates]
+      : geometry.type === 'MultiLineString' ? geometry.coordinates
+      : []
+    return parts.flat().map(position => fromPosition(position))
+  })
+
+  const points = geometries.flatMap(({ geometry, properties }) =>
+    geometry.type === 'Point' ? [fromPosition(geometry.coordinates, properties)]
+      : geometry.type === 'MultiPoint' ? geometry.coordinates.map(position => fromPosition(position, properties))
+      : []
+  )
+
+  let parsed: ParsedPoint[]
+  let source: string
+
+  if (lineCoordinates.length > 0 && points.length !== lineCoordinates.length) {
+    parsed = lineCoordinates
+    source = plural(lines.length, 'line')
+  } else {
+    parsed = points
+    source = plural(points.length, 'point')
+  }
+
+  parsed = parsed.filter(point => !isNaN(point.lat) && !isNaN(point.lng))
+  if (parsed.length === 0) {
+    throw new Error('GeoJSON contains no lines or points')
+  }
+
+  const name = lines[0]?.properties?.name
+  return { points: toRoutePoints(parsed), name: typeof name === 'string' ? name : null, source }
+}
+
+export type { GeoJsonImport }
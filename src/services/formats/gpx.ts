@@ -0,0 +1,118 @@
+// GPX 1.1 import and export
+// Exports route points as a GPX route (rte) or track (trk) with elevation and time, and
+// imports routes, tracks (all segments, in order) or standalone waypoints.
+
+import type { RoutePoint, TrajectoryData } from '../../types/trajectory'
+import { childElements, childText, elementsByName, escapeXml, parseXml } from './xml'
+import { parseNumber, plural, toAbsoluteTime, toRoutePoints } from './common'
+
+type GpxMode = 'route' | 'track'
+
+interface GpxImport {
+  points: RoutePoint[]
+  /** Name of the imported route or track, when the file has one */
+  name: string | null
+  /** What the points were read from, e.g. "2 track segments" */
+  source: string
+}
+
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1'
+
+function formatPoint(tag: string, point: RoutePoint, startTime: Date, indent: string): string {
+  // Child order follows the GPX 1.1 wptType sequence
+  const children = [
+    `<ele>${point.altitude}</ele>`,
+    `<time>${toAbsoluteTime(startTime, point).toISOString()}</time>`,
+    `<name>${escapeXml(point.name)}</name>`,
+    point.altitudeSource ? `<src>${escapeXml(point.altitudeSource.sourceLabel)}</src>` : null
+  ].filter(Boolean)
+
+  return `${indent}<${tag} lat="${point.lat.toFixed(7)}" lon="${point.lng.toFixed(7)}">\n` +
+    children.map(child => `${indent}  ${child}\n`).join('') +
+    `${indent}</${tag}>\n`
+}
+
+/**
+ * Serialize a trajectory as GPX 1.1. Point times are the trajectory creation time
+ * plus each point's timestamp.
+ */
+export function exportGpx(data: TrajectoryData, mode: GpxMode, name = 'GPS Trajectory'): string {
+  const startTime = new Date(data.createdAt)
+  const body = mode === 'route'
+    ? `  <rte>\n    <name>${escapeXml(name)}</name>\n` +
+      data.points.map(point => formatPoint('rtept', point, startTime, '    ')).join('') +
+      '  </rte>\n'
+    : `  <trk>\n    <name>${escapeXml(name)}</name>\n    <trkseg>\n` +
+      data.points.map(point => formatPoint('trkpt', point, startTime, '      ')).join('') +
+      '    </trkseg>\n  </trk>\n'
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<gpx version="1.1" creator="GPS Trajectory Planner" xmlns="${GPX_NAMESPACE}" ` +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+    `xsi:schemaLocation="${GPX_NAMESPACE} ${GPX_NAMESPACE}/gpx.xsd">\n` +
+    `  <metadata>\n    <name>${escapeXml(name)}</name>\n    <time>${startTime.toISOString()}</time>\n  </metadata>\n` +
+    body +
+    '</gpx>\n'
+}
+
+// Missing or empty coordinates read as NaN, not 0, so the point is skipped
+function readPoint(element: Element) {
+  const time = childText(element, 'time')
+  return {
+    lat: parseNumber(element.getAttribute('lat')) ?? NaN,
+    lng: parseNumber(element.getAttribute('lon')) ?? NaN,
+    altitude: parseNumber(childText(element, 'ele')),
+    time: time ? Date.parse(time) : null,
+    name: childText(element, 'name')
+  }
+}
+
+/**
+ * Parse a GPX file into route points. Routes are preferred, then tracks (segments
+ * are joined in order), then standalone waypoints.
+ */
+export function parseGpx(text: string): GpxImport {
+  const doc = parseXml(text)
+  if (doc.documentElement.localName !== 'gpx') {
+    throw new Error('Not a GPX file')
+  }
+
+  const routes = elementsByName(doc, 'rte')
+  const tracks = elementsByName(doc, 'trk')
+  let elements: Element[]
+  let container: Element | null = null
+  let source: string
+
+  if (routes.some(route => childElements(route, 'rtept').length > 0)) {
+    elements = routes.flatMap(route => childElements(route, 'rtept'))
+    container = routes[0]
+    source = plural(routes.length, 'route')
+  } else if (tracks.some(track => childElements(track, 'trkseg').some(segment => childElements(segment, 'trkpt').length > 0))) {
+    // Empty segments would inflate the count in the summary
+    const segments = tracks
+      .flatMap(track => childElements(track, 'trkseg'))
+      .filter(segment => childElements(segment, 'trkpt').length > 0)
+    elements = segments.flatMap(segment => childElements(segment, 'trkpt'))
+    container = tracks[0]
+    source = plural(segments.length, 'track segment')
+  } else {
+    elements = childElements(doc.documentElement, 'wpt')
+    source = plural(elements.length, 'waypoint')
+  }
+
+  const parsed = elements
+    .map(readPoint)
+    .filter(point => !isNaN(point.lat) && !isNaN(point.lng))
+  if (parsed.length === 0) {
+    throw new Error('GPX file contains no waypoints, routes or tracks')
+  }
+
+  const metadata = childElements(doc.documentElement, 'metadata')[0]
+  return {
+    points: toRoutePoints(parsed),
+    name: (container && childText(container, 'name')) ?? (metadata && childText(metadata, 'name')) ?? null,
+    source
+  }
+}
+
+export type { GpxImport, GpxMode }
@@ -0,0 +1,78 @@
+// IGC flight recorder log import
+// Reads the flight date from the HFDTE header and fixes from B records. GNSS altitude is
+// used when the recorder has a 3D fix, pressure altitude otherwise.
+
+import type { TrackPoint } from '../../types/trajectory'
+import type { TrackLogImport } from './common'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// DDMMmmm + N/S or DDDMMmmm + E/W, minutes with three implied decimals
+function parseIgcCoordinate(value: string, degreeDigits: number): number {
+  const degrees = Number(value.slice(0, degreeDigits))
+  const minutes = Number(value.slice(degreeDigits, degreeDigits + 5)) / 1000
+  const hemisphere = value[degreeDigits + 5]
+  const coordinate = degrees + minutes / 60
+  return hemisphere === 'S' || hemisphere === 'W' ? -coordinate : coordinate
+}
+
+// HFDTEDDMMYY (IGC 2008) or HFDTEDATE:DDMMYY,NN (IGC 2016)
+function parseFlightDate(line: string): number | null {
+  const match = line.match(/^HFDTE(?:DATE:)?(\d{2})(\d{2})(\d{2})/)
+  if (!match) return null
+  const [, day, month, year] = match.map(Number)
+  return Date.UTC(2000 + year, month - 1, day)
+}
+
+// Header value after the colon, e.g. HFGTYGLIDERTYPE:ASK 21
+function headerValue(line: string): string | null {
+  const value = line.slice(line.indexOf(':') + 1).trim()
+  return line.includes(':') && value ? value : null
+}
+
+/**
+ * Parse an IGC log. Without a date header, times are counted from midnight of an
+ * arbitrary day.
+ */
+export function parseIgc(text: string): TrackLogImport {
+  let date = 0
+  let pilot: string | null = null
+  let glider: string | null = null
+  let previousTimeOfDay = -1
+  const points: TrackPoint[] = []
+
+  text.split(/\r?\n/).forEach(line => {
+    if (line.startsWith('HFDTE')) {
+      date = parseFlightDate(line) ?? date
+    } else if (line.startsWith('HFPLT')) {
+      pilot = headerValue(line)
+    } else if (line.startsWith('HFGTY')) {
+      glider = headerValue(line)
+    } else if (line.startsWith('B') && line.length >= 35) {
+      // B HHMMSS DDMMmmmN DDDMMmmmE V PPPPP GGGGG
+      const timeOfDay = ((Number(line.slice(1, 3)) * 60 + Number(line.slice(3, 5))) * 60 + Number(line.slice(5, 7))) * 1000
+      const lat = parseIgcCoordinate(line.slice(7, 15), 2)
+      const lng = parseIgcCoordinate(line.slice(15, 24), 3)
+      const hasGnssFix = line[24] === 'A'
+      const pressureAltitude = Number(line.slice(25, 30))
+      const gnssAltitude = Number(line.slice(30, 35))
+      if (isNaN(lat) || isNaN(lng) || isNaN(timeOfDay)) return
+
+      // Flights crossing midnight UTC continue on the next day
+      if (timeOfDay < previousTimeOfDay) date += DAY_MS
+      previousTimeOfDay = timeOfDay
+
+      const altitude = hasGnssFix && gnssAltitude !== 0 && !isNaN(gnssAltitude)
+        ? gnssAltitude
+        : !isNaN(pressureAltitude) ? pressureAltitude : null
+      points.push({ lat, lng, altitude, time: date + timeOfDay })
+    }
+  })
+
+  if (points.length === 0) {
+    throw new Error('IGC log contains no B record fixes')
+  }
+
+  const name = [pilot, glider].filter(Boolean).join(' · ')
+  return { name: name || null, points }
+}
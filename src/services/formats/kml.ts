@@ -0,0 +1,234 @@
+// KML 2.2 and KMZ import and export
+// Exports the route as a 3D LineString with one placemark per waypoint for Google Earth,
+// and imports LineStrings, gx:Tracks or Point placemarks.
+
+import type { RoutePoint, TrajectoryData } from '../../types/trajectory'
+import { describeProvenance } from '../altitudeService'
+import { childElements, childText, elementsByName, escapeXml, parseXml } from './xml'
+import { parseNumber, plural, toAbsoluteTime, toRoutePoints } from './common'
+import type { ParsedPoint } from './common'
+import { createZip, readZipEntries } from '../../lib/zip'
+
+type KmlAltitudeMode = 'absolute' | 'relativeToGround' | 'clampToGround'
+
+interface KmlImport {
+  points: RoutePoint[]
+  name: string | null
+  /** What the points were read from, e.g. "1 line" */
+  source: string
+  /** Whether the altitudes were heights above the terrain, imported unconverted */
+  relativeToGround: boolean
+}
+
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2'
+const GX_NAMESPACE = 'http://www.google.com/kml/ext/2.2'
+
+const KML_ALTITUDE_MODES: Array<{ id: KmlAltitudeMode, label: string, description: string }> = [
+  { id: 'absolute', label: 'Absolute', description: 'Altitudes above sea level' },
+  { id: 'relativeToGround', label: 'Relative to ground', description: 'Altitudes as heights above the terrain' },
+  { id: 'clampToGround', label: 'Clamp to ground', description: 'Drawn on the terrain, altitudes ignored' }
+]
+
+function formatCoordinate(point: RoutePoint, height: number): string {
+  return `${point.lng.toFixed(7)},${point.lat.toFixed(7)},${height}`
+}
+
+function formatPlacemark(point: RoutePoint, height: number, startTime: Date, altitudeMode: KmlAltitudeMode): string {
+  const details = [
+    `Altitude: ${point.altitude} m`,
+    altitudeMode === 'relativeToGround' ? `Height above ground: ${height} m` : null,
+    `Time: +${point.timestamp}s`,
+    point.altitudeSource
+      ? `Source: ${point.altitudeSource.sourceLabel} (${describeProvenance(point.altitudeSource)})`
+      : null
+  ].filter(Boolean).join('<br/>')
+
+  return '    <Placemark>\n' +
+    `      <name>${escapeXml(point.name)}</name>\n` +
+    `      <description>${escapeXml(details)}</description>\n` +
+    `      <TimeStamp><when>${toAbsoluteTime(startTime, point).toISOString()}</when></TimeStamp>\n` +
+    '      <styleUrl>#waypoint</styleUrl>\n' +
+    '      <Point>\n' +
+    (altitudeMode !== 'clampToGround' ? '        <extrude>1</extrude>\n' : '') +
+    `        <altitudeMode>${altitudeMode}</altitudeMode>\n` +
+    `        <coordinates>${formatCoordinate(point, height)}</coordinates>\n` +
+    '      </Point>\n' +
+    '    </Placemark>\n'
+}
+
+/**
+ * Serialize a trajectory as a KML document. The route is a LineString drawn as a wall
+ * down to the ground unless clamped, followed by a placemark for every waypoint.
+ * Heights relative to ground are the altitudes minus `terrainElevations`, which that
+ * mode requires.
+ */
+export function exportKml(
+  data: TrajectoryData,
+  altitudeMode: KmlAltitudeMode,
+  terrainElevations: number[] | null = null,
+  name = 'GPS Trajectory'
+): string {
+  const startTime = new Date(data.createdAt)
+  const clamped = altitudeMode === 'clampToGround'
+  const ground = altitudeMode === 'relativeToGround' ? terrainElevations : null
+  if (altitudeMode === 'relativeToGround' && ground?.length !== data.points.length) {
+    throw new Error('Heights relative to ground need the ground elevation under every waypoint')
+  }
+  const heights = data.points.map((point, index) => ground
+    ? Math.round((point.altitude - ground[index]) * 10) / 10
+    : point.altitude)
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<kml xmlns="${KML_NAMESPACE}">\n` +
+    '  <Document>\n' +
+    `    <name>${escapeXml(name)}</name>\n` +
+    '    <Style id="route">\n' +
+    '      <LineStyle><color>ff0000ff</color><width>3</width></LineStyle>\n' +
+    '      <PolyStyle><color>4d0000ff</color></PolyStyle>\n' +
+    '    </Style>\n' +
+    '    <Style id="waypoint">\n' +
+    '      <IconStyle><Icon><href>https://maps.google.com/mapfiles/kml/paddle/red-circle.png</href></Icon></IconStyle>\n' +
+    '    </Style>\n' +
+    '    <Placemark>\n' +
+    `      <name>${escapeXml(name)}</name>\n` +
+    '      <styleUrl>#route</styleUrl>\n' +
+    '      <LineString>\n' +
+    (clamped ? '        <tessellate>1</tessellate>\n' : '        <extrude>1</extrude>\n') +
+    `        <altitudeMode>${altitudeMode}</altitudeMode>\n` +
+    '        <coordinates>\n' +
+    data.points.map((point, index) => `          ${formatCoordinate(point, heights[index])}\n`).join('') +
+    '        </coordinates>\n' +
+    '      </LineString>\n' +
+    '    </Placemark>\n' +
+    '    <Folder>\n' +
+    '      <name>Waypoints</name>\n' +
+    data.points.map((point, index) => formatPlacemark(point, heights[index], startTime, altitudeMode)).join('') +
+    '    </Folder>\n' +
+    '  </Document>\n' +
+    '</kml>\n'
+}
+
+/**
+ * Serialize a trajectory as a KMZ archive holding a single doc.kml
+ */
+export function exportKmz(
+  data: TrajectoryData,
+  altitudeMode: KmlAltitudeMode,
+  terrainElevations: number[] | null = null,
+  name?: string
+): Uint8Array {
+  const kml = new TextEncoder().encode(exportKml(data, altitudeMode, terrainElevations, name))
+  return createZip([{ name: 'doc.kml', data: kml }], new Date(data.createdAt))
+}
+
+// Clamped coordinates carry no meaningful altitude
+function readAltitude(element: Element, value: string | undefined): number | null {
+  const mode = childText(element, 'altitudeMode')
+  return mode === null || mode === 'clampToGround' ? null : parseNumber(value)
+}
+
+function isRelativeToGround(element: Element): boolean {
+  return childText(element, 'altitudeMode') === 'relativeToGround'
+}
+
+function parseCoordinates(element: Element): ParsedPoint[] {
+  const text = childText(element, 'coordinates') ?? ''
+  return text.split(/\s+/).filter(Boolean).map(tuple => {
+    const [lng, lat, altitude] = tuple.split(',')
+    return { lat: Number(lat), lng: Number(lng), altitude: readAltitude(element, altitude) }
+  })
+}
+
+// gx:Track pairs each <when> with a <gx:coord> "lng lat alt"
+function parseTrack(element: Element): ParsedPoint[] {
+  const times = childElements(element, 'when').map(when => Date.parse(when.textContent ?? ''))
+  return childElements(element, 'coord').map((coord, index) => {
+    const [lng, lat, altitude] = (coord.textContent ?? '').trim().split(/\s+/)
+    return {
+      lat: Number(lat),
+      lng: Number(lng),
+      altitude: readAltitude(element, altitude),
+      time: times[index] ?? null
+    }
+  })
+}
+
+function parsePointPlacemark(placemark: Element): ParsedPoint {
+  const point = childElements(placemark, 'Point')[0]
+  const [coordinate] = parseCoordinates(point)
+  const timeStamp = childElements(placemark, 'TimeStamp')[0]
+  const when = timeStamp ? childText(timeStamp, 'when') : null
+  return {
+    ...coordinate,
+    time: when ? Date.parse(when) : null,
+    name: childText(placemark, 'name')
+  }
+}
+
+/**
+ * Parse a KML document into route points. LineStrings are preferred, then gx:Tracks,
+ * then Point placemarks. When the point placemarks match the line vertex for vertex, as
+ * in files written by exportKml, the placemarks are used for their names and times.
+ */
+export function parseKml(text: string): KmlImport {
+  const doc = parseXml(text)
+  if (doc.documentElement.localName !== 'kml') {
+    throw new Error('Not a KML file')
+  }
+
+  const lineStrings = elementsByName(doc, 'LineString')
+  const tracks = doc.getElementsByTagNameNS(GX_NAMESPACE, 'Track')
+  const pointPlacemarks = elementsByName(doc, 'Placemark')
+    .filter(placemark => childElements(placemark, 'Point').length > 0)
+  const lineCoordinates = lineStrings.flatMap(parseCoordinates)
+
+  let parsed: ParsedPoint[]
+  let source: string
+  let relativeToGround: boolean
+  let container: Element | null = null
+
+  if (lineCoordinates.length > 0 && pointPlacemarks.length !== lineCoordinates.length) {
+    parsed = lineCoordinates
+    relativeToGround = lineStrings.some(isRelativeToGround)
+    container = lineStrings[0].parentElement
+    source = plural(lineStrings.length, 'line')
+  } else if (lineCoordinates.length === 0 && tracks.length > 0) {
+    parsed = Array.from(tracks).flatMap(parseTrack)
+    relativeToGround = Array.from(tracks).some(isRelativeToGround)
+    container = tracks[0].parentElement
+    source = plural(tracks.length, 'track')
+  } else {
+    parsed = pointPlacemarks.map(parsePointPlacemark)
+    relativeToGround = pointPlacemarks.some(placemark => isRelativeToGround(childElements(placemark, 'Point')[0]))
+    source = plural(pointPlacemarks.length, 'placemark')
+  }
+
+  parsed = parsed.filter(point => !isNaN(point.lat) && !isNaN(point.lng))
+  if (parsed.length === 0) {
+    throw new Error('KML file contains no lines, tracks or placemarks')
+  }
+
+  const kmlDocument = elementsByName(doc, 'Document')[0]
+  return {
+    points: toRoutePoints(parsed),
+    name: (container && childText(container, 'name')) ?? (kmlDocument && childText(kmlDocument, 'name')) ?? null,
+    source,
+    relativeToGround
+  }
+}
+
+/**
+ * Parse a KMZ archive, reading doc.kml or else the first KML file at any depth
+ */
+export async function parseKmz(buffer: ArrayBuffer): Promise<KmlImport> {
+  const entries = await readZipEntries(buffer)
+  const kmlEntries = entries.filter(entry => entry.name.toLowerCase().endsWith('.kml'))
+  const entry = kmlEntries.find(kmlEntry => kmlEntry.name.toLowerCase() === 'doc.kml') ?? kmlEntries[0]
+  if (!entry) {
+    throw new Error('KMZ archive contains no KML document')
+  }
+  return parseKml(new TextDecoder().decode(entry.data))
+}
+
+export { KML_ALTITUDE_MODES }
+export type { KmlAltitudeMode, KmlImport }
@@ -0,0 +1,285 @@
+// Drone mission export: QGroundControl .plan and MAVLink "QGC WPL 110" waypoint files
+// Each route point becomes a MAVLink mission item using its mission command. Ground speed
+// changes are inserted wherever the timestamps call for a different leg speed.
+
+import type { MissionCommand, RoutePoint, TrajectoryData } from '../../types/trajectory'
+import { distanceBetween, listNames } from './common'
+
+type MissionAltitudeFrame = 'relative' | 'amsl' | 'terrain'
+
+interface MissionExportOptions {
+  frame: MissionAltitudeFrame
+  /**
+   * Ground elevation under each route point in meters AMSL; required for the terrain
+   * frame, where altitudes are written as heights above it
+   */
+  terrainElevations: number[] | null
+}
+
+interface MissionItem {
+  command: number
+  frame: number
+  /** param1-param4, latitude, longitude, altitude; null where unused (NaN in MAVLink) */
+  params: Array<number | null>
+  autoContinue: boolean
+}
+
+const MISSION_COMMANDS: Array<{ id: MissionCommand, label: string }> = [
+  { id: 'takeoff', label: 'Take off' },
+  { id: 'waypoint', label: 'Waypoint' },
+  { id: 'loiter', label: 'Loiter' },
+  { id: 'land', label: 'Land' },
+  { id: 'rtl', label: 'Return to launch' }
+]
+
+const MISSION_ALTITUDE_FRAMES: Array<{ id: MissionAltitudeFrame, label: string, description: string }> = [
+  { id: 'relative', label: 'Relative', description: 'Heights above the first waypoint, used as the launch point' },
+  { id: 'amsl', label: 'AMSL', description: 'Altitudes above sea level' },
+  { id: 'terrain', label: 'Terrain', description: 'Heights above the ground under each waypoint' }
+]
+
+// MAV_CMD values
+const MAV_CMD_NAV_WAYPOINT = 16
+const MAV_CMD_NAV_LOITER_TIME = 19
+const MAV_CMD_NAV_RETURN_TO_LAUNCH = 20
+const MAV_CMD_NAV_LAND = 21
+const MAV_CMD_NAV_TAKEOFF = 22
+const MAV_CMD_DO_CHANGE_SPEED = 178
+
+const NAV_COMMANDS: Record<MissionCommand, number> = {
+  takeoff: MAV_CMD_NAV_TAKEOFF,
+  waypoint: MAV_CMD_NAV_WAYPOINT,
+  loiter: MAV_CMD_NAV_LOITER_TIME,
+  land: MAV_CMD_NAV_LAND,
+  rtl: MAV_CMD_NAV_RETURN_TO_LAUNCH
+}
+
+// MAV_FRAME values
+const MAV_FRAME_GLOBAL = 0
+const MAV_FRAME_MISSION = 2
+const MAV_FRAME_GLOBAL_RELATIVE_ALT = 3
+const MAV_FRAME_GLOBAL_TERRAIN_ALT = 10
+
+const ALTITUDE_FRAMES: Record<MissionAltitudeFrame, number> = {
+  relative: MAV_FRAME_GLOBAL_RELATIVE_ALT,
+  amsl: MAV_FRAME_GLOBAL,
+  terrain: MAV_FRAME_GLOBAL_TERRAIN_ALT
+}
+
+// QGroundControl AltitudeMode values for the same frames
+const QGC_ALTITUDE_MODES: Record<MissionAltitudeFrame, number> = {
+  relative: 1,
+  amsl: 2,
+  terrain: 4
+}
+
+// Speed changes smaller than this are not worth a mission item (m/s)
+const SPEED_CHANGE_THRESHOLD = 0.5
+// Used when the timestamps give no usable speed (m/s)
+const DEFAULT_CRUISE_SPEED = 5
+
+/**
+ * Ground speed for each leg, from the distance and the time left after holding at
+ * the start waypoint. Null when the timestamps do not allow a speed.
+ */
+function legSpeeds(points: RoutePoint[]): Array<number | null> {
+  return points.slice(1).map((point, index) => {
+    const from = points[index]
+    const travelTime = point.timestamp - from.timestamp - (from.holdTime ?? 0)
+    return travelTime > 0 ? distanceBetween(from, point) / travelTime : null
+  })
+}
+
+function averageSpeed(points: RoutePoint[]): number {
+  const speeds = legSpeeds(points).filter((speed): speed is number => speed !== null)
+  return speeds.length > 0 ? speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length : DEFAULT_CRUISE_SPEED
+}
+
+function missionAltitude(point: RoutePoint, index: number, points: RoutePoint[], options: MissionExportOptions): number {
+  switch (options.frame) {
+    case 'relative':
+      return point.altitude - points[0].altitude
+    case 'terrain': {
+      const ground = options.terrainElevations?.[index]
+      if (ground === undefined) {
+        throw new Error('Terrain elevations are required for the terrain altitude frame')
+      }
+      return point.altitude - ground
+    }
+    default:
+      return point.altitude
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function navItem(point: RoutePoint, altitude: number, frame: number): MissionItem {
+  const command = point.missionCommand ?? 'waypoint'
+  const position = [round(point.lat, 7), round(point.lng, 7), round(altitude, 2)]
+  const hold = point.holdTime ?? 0
+
+  switch (command) {
+    case 'takeoff':
+      // Minimum pitch, empty, empty, yaw
+      return { command: NAV_COMMANDS.takeoff, frame, params: [0, 0, 0, null, ...position], autoContinue: true }
+    case 'loiter':
+      // Loiter time, heading required, radius (0 = vehicle default), xtrack location
+      return { command: NAV_COMMANDS.loiter, frame, params: [hold, 0, 0, 0, ...position], autoContinue: true }
+    case 'land':
+      // Abort altitude, precision land mode, empty, yaw
+      return { command: NAV_COMMANDS.land, frame, params: [0, 0, 0, null, ...position], autoContinue: true }
+    case 'rtl':
+      return { command: NAV_COMMANDS.rtl, frame: MAV_FRAME_MISSION, params: [0, 0, 0, 0, 0, 0, 0], autoContinue: true }
+    default:
+      // Hold time, acceptance radius, pass radius, yaw
+      return { command: NAV_COMMANDS.waypoint, frame, params: [hold, 0, 0, null, ...position], autoContinue: true }
+  }
+}
+
+function speedItem(speed: number): MissionItem {
+  // Speed type 1 is ground speed; -1 leaves the throttle unchanged
+  return {
+    command: MAV_CMD_DO_CHANGE_SPEED,
+    frame: MAV_FRAME_MISSION,
+    params: [1, round(speed, 2), -1, 0, 0, 0, 0],
+    autoContinue: true
+  }
+}
+
+/**
+ * In the relative frame a plain first waypoint is the launch point heights are measured
+ * from. It is written as the home position only: as a mission item it would send the
+ * vehicle to 0 m.
+ */
+function isLaunchPointOnly(points: RoutePoint[], frame: MissionAltitudeFrame): boolean {
+  return frame === 'relative' && points.length > 0 && (points[0].missionCommand ?? 'waypoint') === 'waypoint'
+}
+
+/**
+ * Refuse heights that would put the vehicle on or into the ground, such as waypoints
+ * whose altitude was set to the ground elevation, or a takeoff from the launch point
+ * in the relative frame. Landing and return to launch bring the vehicle down on purpose.
+ */
+function checkMissionHeights(points: RoutePoint[], altitudes: number[], frame: MissionAltitudeFrame, first: number) {
+  if (frame === 'amsl') return
+  const grounded = points.filter((point, index) =>
+    index >= first && altitudes[index] <= 0 &&
+    point.missionCommand !== 'land' && point.missionCommand !== 'rtl')
+  if (grounded.length === 0) return
+
+  if (frame === 'relative' && grounded[0] === points[0]) {
+    const command = MISSION_COMMANDS.find(({ id }) => id === points[0].missionCommand)?.label ?? 'Waypoint'
+    throw new Error(`${command} at ${points[0].name} would be at 0 m, as heights are measured from that launch point; move it to the waypoint the vehicle climbs to`)
+  }
+  const reference = frame === 'terrain' ? 'the ground under them' : 'the first waypoint'
+  throw new Error(`${listNames(grounded.map(point => point.name))} would fly at or below ${reference}; raise their altitude or choose another altitude frame`)
+}
+
+/**
+ * Build MAVLink mission items for a route: one navigation item per point, followed by
+ * a speed change whenever the leg to the next point needs a different speed. In the
+ * relative frame a plain first waypoint is left to the home position. Throws if a
+ * waypoint would be at or below the ground in the relative or terrain frame.
+ */
+export function buildMissionItems(points: RoutePoint[], options: MissionExportOptions): MissionItem[] {
+  const frame = ALTITUDE_FRAMES[options.frame]
+  const speeds = legSpeeds(points)
+  const altitudes = points.map((point, index) => missionAltitude(point, index, points, options))
+  const first = isLaunchPointOnly(points, options.frame) ? 1 : 0
+  checkMissionHeights(points, altitudes, options.frame, first)
+  const items: MissionItem[] = []
+  let currentSpeed: number | null = null
+
+  points.forEach((point, index) => {
+    if (index >= first) {
+      items.push(navItem(point, altitudes[index], frame))
+    }
+
+    // The vehicle flies the leg to the next point at this speed
+    const speed = speeds[index]
+    if (speed !== null && speed !== undefined &&
+        (currentSpeed === null || Math.abs(speed - currentSpeed) >= SPEED_CHANGE_THRESHOLD)) {
+      items.push(speedItem(speed))
+      currentSpeed = speed
+    }
+  })
+
+  return items
+}
+
+/**
+ * Serialize a route as a QGroundControl plan file. The first route point is the
+ * planned home position.
+ */
+export function exportQgcPlan(data: TrajectoryData, options: MissionExportOptions): string {
+  const items = buildMissionItems(data.points, options)
+  const cruiseSpeed = round(averageSpeed(data.points), 2)
+  const home = data.points[0]
+
+  const plan = {
+    fileType: 'Plan',
+    geoFence: { circles: [], polygons: [], version: 2 },
+    groundStation: 'QGroundControl',
+    mission: {
+      cruiseSpeed,
+      // MAV_AUTOPILOT_GENERIC; QGC adapts the plan to the connected vehicle
+      firmwareType: 0,
+      hoverSpeed: cruiseSpeed,
+      items: items.map((item, index) => ({
+        autoContinue: item.autoContinue,
+        command: item.command,
+        doJumpId: index + 1,
+        frame: item.frame,
+        params: item.params,
+        type: 'SimpleItem',
+        ...(item.frame !== MAV_FRAME_MISSION && {
+          AMSLAltAboveTerrain: null,
+          Altitude: item.params[6],
+          AltitudeMode: QGC_ALTITUDE_MODES[options.frame]
+        })
+      })),
+      plannedHomePosition: home ? [round(home.lat, 7), round(home.lng, 7), home.altitude] : [0, 0, 0],
+      // MAV_TYPE_QUADROTOR
+      vehicleType: 2,
+      version: 2
+    },
+    rallyPoints: { points: [], version: 2 },
+    version: 1
+  }
+
+  return JSON.stringify(plan, null, 2)
+}
+
+/**
+ * Serialize a route in the MAVLink QGC WPL 110 text format. Line 0 is the home
+ * position in absolute altitude, as written by QGroundControl and Mission Planner.
+ */
+export function exportWpl(data: TrajectoryData, options: MissionExportOptions): string {
+  const home = data.points[0]
+  const homeItem: MissionItem = {
+    command: MAV_CMD_NAV_WAYPOINT,
+    frame: MAV_FRAME_GLOBAL,
+    params: [0, 0, 0, 0, home ? round(home.lat, 7) : 0, home ? round(home.lng, 7) : 0, home?.altitude ?? 0],
+    autoContinue: true
+  }
+
+  const lines = [homeItem, ...buildMissionItems(data.points, options)].map((item, index) =>
+    [
+      index,
+      index === 0 ? 1 : 0,
+      item.frame,
+      item.command,
+      // WPL has no NaN; unused parameters are written as 0
+      ...item.params.map(param => param ?? 0),
+      item.autoContinue ? 1 : 0
+    ].join('\t')
+  )
+
+  return ['QGC WPL 110', ...lines].join('\n') + '\n'
+}
+
+export { MISSION_ALTITUDE_FRAMES, MISSION_COMMANDS }
+export type { MissionAltitudeFrame, MissionExportOptions, MissionItem }
@@ -0,0 +1,143 @@
+// NMEA 0183 log import
+// Reads GGA (position and altitude) and RMC (position and date) sentences from any talker
+// (GP, GN, GL, ...). Sentences sharing a time of day are merged into one fix.
+
+import type { TrackPoint } from '../../types/trajectory'
+import type { TrackLogImport } from './common'
+
+interface NmeaFix {
+  /** Milliseconds since midnight UTC */
+  timeOfDay: number | null
+  lat: number
+  lng: number
+  altitude: number | null
+  /** Epoch milliseconds at midnight UTC, only known from RMC sentences */
+  date: number | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Whether the sentence checksum matches; sentences without one are accepted
+ */
+function hasValidChecksum(sentence: string): boolean {
+  const star = sentence.lastIndexOf('*')
+  if (star < 0) return true
+  let checksum = 0
+  for (let i = 1; i < star; i++) {
+    checksum ^= sentence.charCodeAt(i)
+  }
+  return checksum === parseInt(sentence.slice(star + 1, star + 3), 16)
+}
+
+// ddmm.mmmm / dddmm.mmmm with a hemisphere letter
+function parseNmeaCoordinate(value: string, hemisphere: string): number {
+  const dot = value.indexOf('.')
+  const degreeDigits = (dot < 0 ? value.length : dot) - 2
+  if (degreeDigits < 1) return NaN
+  const degrees = Number(value.slice(0, degreeDigits))
+  const minutes = Number(value.slice(degreeDigits))
+  const coordinate = degrees + minutes / 60
+  return hemisphere === 'S' || hemisphere === 'W' ? -coordinate : coordinate
+}
+
+// hhmmss.ss as milliseconds since midnight UTC
+function parseTimeOfDay(value: string): number | null {
+  if (!/^\d{6}(\.\d+)?$/.test(value)) return null
+  const hours = Number(value.slice(0, 2))
+  const minutes = Number(value.slice(2, 4))
+  const seconds = Number(value.slice(4))
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000
+}
+
+// ddmmyy as epoch milliseconds at midnight UTC
+function parseDate(value: string): number | null {
+  if (!/^\d{6}$/.test(value)) return null
+  const day = Number(value.slice(0, 2))
+  const month = Number(value.slice(2, 4))
+  const year = Number(value.slice(4, 6))
+  // Two-digit years: 80-99 are 1980-1999 (GPS epoch), the rest 2000-2079
+  return Date.UTC(year >= 80 ? 1900 + year : 2000 + year, month - 1, day)
+}
+
+/**
+ * Parse an NMEA log. Times are absolute when an RMC sentence supplies the date, and
+ * otherwise counted from midnight of an arbitrary day.
+ */
+export function parseNmea(text: string): TrackLogImport {
+  const fixes: NmeaFix[] = []
+  let invalidChecksums = 0
+
+  text.split(/\r?\n/).forEach(line => {
+    const start = line.indexOf('$')
+    if (start < 0) return
+    const sentence = line.slice(start).trim()
+    if (!hasValidChecksum(sentence)) {
+      invalidChecksums++
+      return
+    }
+
+    const fields = sentence.split('*')[0].split(',')
+    const type = fields[0].slice(3)
+    let fix: NmeaFix | null = null
+
+    if (type === 'GGA') {
+      // Fix quality 0 means no fix
+      if (fields[6] === '0' || fields[6] === '') return
+      fix = {
+        timeOfDay: parseTimeOfDay(fields[1]),
+        lat: parseNmeaCoordinate(fields[2], fields[3]),
+        lng: parseNmeaCoordinate(fields[4], fields[5]),
+        altitude: fields[9] !== '' && !isNaN(Number(fields[9])) ? Number(fields[9]) : null,
+        date: null
+      }
+    } else if (type === 'RMC') {
+      // Status V means the receiver has no valid fix
+      if (fields[2] !== 'A') return
+      fix = {
+        timeOfDay: parseTimeOfDay(fields[1]),
+        lat: parseNmeaCoordinate(fields[3], fields[4]),
+        lng: parseNmeaCoordinate(fields[5], fields[6]),
+        altitude: null,
+        date: parseDate(fields[9])
+      }
+    }
+
+    if (!fix || isNaN(fix.lat) || isNaN(fix.lng)) return
+
+    // Merge GGA and RMC sentences reporting the same fix
+    const previous = fixes[fixes.length - 1]
+    if (previous && fix.timeOfDay !== null && previous.timeOfDay === fix.timeOfDay) {
+      previous.altitude = previous.altitude ?? fix.altitude
+      previous.date = previous.date ?? fix.date
+      return
+    }
+    fixes.push(fix)
+  })
+
+  if (fixes.length === 0) {
+    throw new Error(invalidChecksums > 0
+      ? `NMEA log contains no valid fixes (${invalidChecksums} sentences failed the checksum)`
+      : 'NMEA log contains no GGA or RMC fixes')
+  }
+
+  // Carry the last known date forward and roll over at midnight
+  let date = fixes.find(fix => fix.date !== null)?.date ?? 0
+  let previousTimeOfDay = -1
+  const points: TrackPoint[] = fixes.map(fix => {
+    if (fix.date !== null) {
+      date = fix.date
+    } else if (fix.timeOfDay !== null && fix.timeOfDay < previousTimeOfDay) {
+      date += DAY_MS
+    }
+    if (fix.timeOfDay !== null) previousTimeOfDay = fix.timeOfDay
+    return {
+      lat: fix.lat,
+      lng: fix.lng,
+      altitude: fix.altitude,
+      time: fix.timeOfDay !== null ? date + fix.timeOfDay : null
+    }
+  })
+
+  return { name: null, points }
+}
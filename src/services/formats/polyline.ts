@@ -0,0 +1,63 @@
+// Encoded polyline
+// Google's encoded polyline algorithm generalized to any number of values per point:
+// each value is scaled to an integer, delta-encoded against the previous point and
+// written as 5-bit chunks in printable ASCII (63-126).
+
+function encodeSigned(value: number): string {
+  // Zigzag so small negative deltas stay short
+  let remaining = value < 0 ? ~(value << 1) : value << 1
+  let encoded = ''
+  while (remaining >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63)
+    remaining >>>= 5
+  }
+  return encoded + String.fromCharCode(remaining + 63)
+}
+
+/**
+ * Encode rows of values; `factors` gives the scale of each column, e.g. 1e5 for
+ * coordinates to about a meter
+ */
+export function encodePolyline(rows: number[][], factors: number[]): string {
+  const previous = factors.map(() => 0)
+  let encoded = ''
+  rows.forEach(row => {
+    factors.forEach((factor, column) => {
+      const value = Math.round(row[column] * factor)
+      encoded += encodeSigned(value - previous[column])
+      previous[column] = value
+    })
+  })
+  return encoded
+}
+
+/**
+ * Decode a polyline written by `encodePolyline` with the same factors
+ */
+export function decodePolyline(encoded: string, factors: number[]): number[][] {
+  const current = factors.map(() => 0)
+  const rows: number[][] = []
+  let index = 0
+
+  const readSigned = (): number => {
+    let result = 0
+    let shift = 0
+    let chunk: number
+    do {
+      if (index >= encoded.length) throw new Error('Encoded polyline is truncated')
+      chunk = encoded.charCodeAt(index++) - 63
+      if (chunk < 0 || chunk > 0x3f) throw new Error(`Invalid character in encoded polyline at ${index - 1}`)
+      result |= (chunk & 0x1f) << shift
+      shift += 5
+    } while (chunk >= 0x20)
+    return result & 1 ? ~(result >>> 1) : result >>> 1
+  }
+
+  while (index < encoded.length) {
+    rows.push(factors.map((factor, column) => {
+      current[column] += readSigned()
+      return current[column] / factor
+    }))
+  }
+  return rows
+}
@@ -0,0 +1,51 @@
+// Garmin Training Center (TCX) import
+// Reads trackpoints from activities (all laps, in order) or courses.
+
+import type { TrackPoint } from '../../types/trajectory'
+import { childElements, childText, elementsByName, parseXml } from './xml'
+import { parseNumber } from './common'
+import type { TrackLogImport } from './common'
+
+/**
+ * Parse a TCX file. Trackpoints without a position (heart rate only samples) are skipped.
+ */
+export function parseTcx(text: string): TrackLogImport {
+  const doc = parseXml(text)
+  if (doc.documentElement.localName !== 'TrainingCenterDatabase') {
+    throw new Error('Not a TCX file')
+  }
+
+  const points: TrackPoint[] = []
+  elementsByName(doc, 'Trackpoint').forEach(trackpoint => {
+    const position = childElements(trackpoint, 'Position')[0]
+    if (!position) return
+
+    const lat = parseNumber(childText(position, 'LatitudeDegrees'))
+    const lng = parseNumber(childText(position, 'LongitudeDegrees'))
+    if (lat === null || lng === null) return
+
+    const time = childText(trackpoint, 'Time')
+    const parsedTime = time ? Date.parse(time) : NaN
+    points.push({
+      lat,
+      lng,
+      altitude: parseNumber(childText(trackpoint, 'AltitudeMeters')),
+      time: isNaN(parsedTime) ? null : parsedTime
+    })
+  })
+
+  if (points.length === 0) {
+    throw new Error('TCX file contains no trackpoints with a position')
+  }
+
+  // Courses have a name; activities are identified by their sport and start time
+  const course = elementsByName(doc, 'Course')[0]
+  const activity = elementsByName(doc, 'Activity')[0]
+  const name = course
+    ? childText(course, 'Name')
+    : activity
+      ? [activity.getAttribute('Sport'), childText(activity, 'Id')].filter(Boolean).join(' ')
+      : null
+
+  return { name: name || null, points }
+}
@@ -0,0 +1,116 @@
+// Trajectory JSON file format
+// The planner's own format: TrajectoryData with a `version` field, validated with zod on
+// import. Files from older versions are upgraded one version at a time by MIGRATIONS
+// before validation, so each migration only has to know about its own change.
+
+import { z } from 'zod'
+import type { TrajectoryData } from '../../types/trajectory'
+
+type JsonObject = Record<string, unknown>
+
+/** Version written by exportTrajectoryJson; bump it and add a migration when the format changes */
+export const TRAJECTORY_FORMAT_VERSION = 2
+
+// Issues listed in an import error before the rest are summarized
+const MAX_REPORTED_ISSUES = 5
+
+const elevationProvenanceSchema = z.object({
+  source: z.string(),
+  sourceLabel: z.string(),
+  resolution: z.number().positive(),
+  verticalDatum: z.string(),
+  accuracy: z.number().nonnegative(),
+  retrievedAt: z.string(),
+  estimated: z.boolean()
+})
+
+const routePointSchema = z.object({
+  id: z.string().min(1),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  altitude: z.number(),
+  altitudeSource: elevationProvenanceSchema.optional(),
+  timestamp: z.number().nonnegative(),
+  timePinned: z.boolean().optional(),
+  name: z.string(),
+  legSpeed: z.number().positive().optional(),
+  missionCommand: z.enum(['takeoff', 'waypoint', 'loiter', 'land', 'rtl']).optional(),
+  holdTime: z.number().nonnegative().optional()
+})
+
+const trajectoryDataSchema = z.object({
+  version: z.literal(TRAJECTORY_FORMAT_VERSION),
+  points: z.array(routePointSchema),
+  totalDistance: z.number().nonnegative(),
+  totalTime: z.number().nonnegative(),
+  createdAt: z.string()
+}) satisfies z.ZodType<TrajectoryData>
+
+/**
+ * Upgrades keyed by the version they read. Files written before the format was
+ * versioned count as version 1.
+ */
+const MIGRATIONS: Record<number, (data: JsonObject) => JsonObject> = {
+  // Version 2 added the version field itself
+  1: (data) => ({ ...data, version: 2 })
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// points[3].lat style paths for error messages
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, key) =>
+    typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${String(key)}` : String(key),
+  '')
+}
+
+function formatIssues(error: z.ZodError): string {
+  const issues = error.issues.map(issue =>
+    issue.path.length > 0 ? `${formatPath(issue.path)}: ${issue.message}` : issue.message
+  )
+  const reported = issues.slice(0, MAX_REPORTED_ISSUES).join('; ')
+  const remaining = issues.length - MAX_REPORTED_ISSUES
+  return remaining > 0 ? `${reported}; and ${remaining} more` : reported
+}
+
+/**
+ * Bring parsed JSON up to the current format version
+ */
+function migrate(data: JsonObject): { data: JsonObject, fromVersion: number } {
+  const fromVersion = data.version === undefined ? 1 : data.version
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new Error(`Invalid trajectory file: version must be a positive integer, got ${JSON.stringify(data.version)}`)
+  }
+  if (fromVersion > TRAJECTORY_FORMAT_VERSION) {
+    throw new Error(`Trajectory file version ${fromVersion} is newer than this planner supports (${TRAJECTORY_FORMAT_VERSION}); please update the planner`)
+  }
+
+  let migrated = data
+  for (let version = fromVersion; version < TRAJECTORY_FORMAT_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated)
+  }
+  return { data: migrated, fromVersion }
+}
+
+/**
+ * Validate trajectory JSON, upgrading older versions first. Throws an error naming
+ * each invalid field when the file does not match the format.
+ */
+export function parseTrajectoryJson(value: unknown): { data: TrajectoryData, fromVersion: number } {
+  if (!isObject(value)) {
+    throw new Error('Invalid trajectory file: expected a JSON object')
+  }
+
+  const { data, fromVersion } = migrate(value)
+  const result = trajectoryDataSchema.safeParse(data)
+  if (!result.success) {
+    throw new Error(`Invalid trajectory file: ${formatIssues(result.error)}`)
+  }
+  return { data: result.data, fromVersion }
+}
+
+export function exportTrajectoryJson(data: TrajectoryData): string {
+  return JSON.stringify(data, null, 2)
+}
@@ -0,0 +1,47 @@
+// XML helpers shared by the GPX and KML formats
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Parse an XML document, throwing on malformed input
+ */
+export function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  const error = doc.getElementsByTagName('parsererror')[0]
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0] ?? 'parse error'}`)
+  }
+  return doc
+}
+
+/**
+ * Elements with a local name anywhere below a node, whatever their namespace prefix
+ */
+export function elementsByName(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName))
+}
+
+/**
+ * Direct children with a local name
+ */
+export function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName)
+}
+
+/**
+ * Trimmed text of the first direct child with a local name, or null
+ */
+export function childText(parent: Element, localName: string): string | null {
+  const text = childElements(parent, localName)[0]?.textContent?.trim()
+  return text ? text : null
+}
@@ -0,0 +1,334 @@
+// Local GeoTIFF elevation rasters
+// Imports single-band GeoTIFF DEMs (IGN RGE ALTI, LiDAR DTMs...) georeferenced in
+// WGS84 (EPSG:4326) or Lambert-93 (EPSG:2154), stores them in IndexedDB and registers
+// each one as its own elevation provider, indexed by its bounding box.
+
+import { fromArrayBuffer } from 'geotiff'
+import { promisifyRequest, transactionDone } from '../lib/idb'
+import { fromLambert93, toLambert93 } from '../lib/lambert93'
+import { elevationProviders } from './elevationProviders'
+import type { BoundingBox, LatLngPoint } from './elevationProviders'
+import { openLocalDemDatabase, RASTER_DATA_STORE, RASTER_STORE } from './localDemDatabase'
+
+type RasterCrs = 'EPSG:4326' | 'EPSG:2154'
+
+interface RasterInfo {
+  id: string
+  /** Original file name */
+  name: string
+  crs: RasterCrs
+  width: number
+  height: number
+  /** Top-left corner in raster CRS units */
+  originX: number
+  originY: number
+  /** Pixel size in raster CRS units; resolutionY is negative for north-up rasters */
+  resolutionX: number
+  resolutionY: number
+  /** Offset from the origin to the first pixel centre, in pixels (0.5 for PixelIsArea) */
+  pixelOffset: number
+  noData: number | null
+  /** Vertical datum declared in the GeoKeys; absent for rasters that declare none */
+  verticalDatum?: string
+  /** Extent in WGS84 degrees */
+  bbox: BoundingBox
+  /** Approximate ground resolution in meters */
+  resolutionMeters: number
+  importedAt: string
+}
+
+interface StoredRasterData {
+  id: string
+  data: ArrayBuffer
+}
+
+const PROVIDER_PREFIX = 'local-raster-'
+// Decoded rasters kept in memory
+const MAX_DECODED_RASTERS = 4
+// GeoKey values
+const EPSG_WGS84 = 4326
+const EPSG_LAMBERT_93 = 2154
+const RASTER_PIXEL_IS_POINT = 2
+// Vertical datums by EPSG code
+const VERTICAL_DATUMS: Record<number, string> = {
+  5703: 'NAVD88',
+  5714: 'MSL',
+  5720: 'NGF-IGN69',
+  5730: 'EVRF2000',
+  5773: 'EGM96',
+  3855: 'EGM2008'
+}
+
+/**
+ * Human readable extent, e.g. "43.55–43.61°N 1.40–1.48°E"
+ */
+function formatExtent(bbox: BoundingBox): string {
+  const deg = (value: number) => `${Math.abs(value).toFixed(2)}`
+  const latSuffix = (value: number) => (value < 0 ? '°S' : '°N')
+  const lngSuffix = (value: number) => (value < 0 ? '°W' : '°E')
+  return `${deg(bbox.south)}–${deg(bbox.north)}${latSuffix(bbox.north)} ` +
+    `${deg(bbox.west)}–${deg(bbox.east)}${lngSuffix(bbox.east)}`
+}
+
+function formatResolution(meters: number): string {
+  return meters < 10 ? `${meters.toFixed(1)} m` : `${Math.round(meters)} m`
+}
+
+/**
+ * Read georeferencing from a GeoTIFF and describe it as RasterInfo
+ */
+async function describeRaster(name: string, buffer: ArrayBuffer): Promise<RasterInfo> {
+  const tiff = await fromArrayBuffer(buffer)
+  const image = await tiff.getImage()
+
+  if (image.getSamplesPerPixel() !== 1) {
+    throw new Error(`${name}: expected a single-band elevation raster, found ${image.getSamplesPerPixel()} bands`)
+  }
+
+  const geoKeys = image.getGeoKeys() ?? {}
+  let crs: RasterCrs
+  if (geoKeys.ProjectedCSTypeGeoKey === EPSG_LAMBERT_93) {
+    crs = 'EPSG:2154'
+  } else if (geoKeys.GeographicTypeGeoKey === EPSG_WGS84 && !geoKeys.ProjectedCSTypeGeoKey) {
+    crs = 'EPSG:4326'
+  } else {
+    const code = geoKeys.ProjectedCSTypeGeoKey ?? geoKeys.GeographicTypeGeoKey
+    throw new Error(`${name}: unsupported coordinate system${code ? ` EPSG:${code}` : ''} (use EPSG:4326 or EPSG:2154)`)
+  }
+
+  const [originX, originY] = image.getOrigin()
+  const [resolutionX, resolutionY] = image.getResolution()
+  const width = image.getWidth()
+  const height = image.getHeight()
+  const pixelOffset = geoKeys.GTRasterTypeGeoKey === RASTER_PIXEL_IS_POINT ? 0 : 0.5
+
+  // Project the raster corners to WGS84 to get its extent
+  const cornersX = [originX, originX + width * resolutionX]
+  const cornersY = [originY, originY + height * resolutionY]
+  const corners = cornersX.flatMap(x => cornersY.map(y =>
+    crs === 'EPSG:2154' ? fromLambert93(x, y) : { lat: y, lng: x }
+  ))
+  const bbox: BoundingBox = {
+    south: Math.min(...corners.map(c => c.lat)),
+    north: Math.max(...corners.map(c => c.lat)),
+    west: Math.min(...corners.map(c => c.lng)),
+    east: Math.max(...corners.map(c => c.lng))
+  }
+
+  const centerLat = (bbox.south + bbox.north) / 2
+  const resolutionMeters = crs === 'EPSG:2154'
+    ? Math.abs(resolutionX)
+    : Math.abs(resolutionX) * 111320 * Math.cos(centerLat * Math.PI / 180)
+
+  return {
+    id: `raster_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    crs,
+    width,
+    height,
+    originX,
+    originY,
+    resolutionX,
+    resolutionY,
+    pixelOffset,
+    noData: image.getGDALNoData(),
+    verticalDatum: VERTICAL_DATUMS[geoKeys.VerticalCSTypeGeoKey] ??
+      (geoKeys.VerticalCSTypeGeoKey ? `EPSG:${geoKeys.VerticalCSTypeGeoKey}` : undefined),
+    bbox,
+    resolutionMeters,
+    importedAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Bilinear interpolation between the four pixel centres around a location,
+ * ignoring no-data pixels
+ */
+function sampleRaster(info: RasterInfo, values: ArrayLike<number>, lat: number, lng: number): number | null {
+  const { x, y } = info.crs === 'EPSG:2154' ? toLambert93(lat, lng) : { x: lng, y: lat }
+  const col = (x - info.originX) / info.resolutionX - info.pixelOffset
+  const row = (y - info.originY) / info.resolutionY - info.pixelOffset
+
+  // Allow half a pixel beyond the outermost centres
+  if (col < -0.5 || row < -0.5 || col > info.width - 0.5 || row > info.height - 0.5) return null
+
+  const clampCol = (c: number) => Math.min(Math.max(c, 0), info.width - 1)
+  const clampRow = (r: number) => Math.min(Math.max(r, 0), info.height - 1)
+  const c0 = clampCol(Math.floor(col))
+  const r0 = clampRow(Math.floor(row))
+  const c1 = clampCol(c0 + 1)
+  const r1 = clampRow(r0 + 1)
+  const fc = Math.min(Math.max(col - c0, 0), 1)
+  const fr = Math.min(Math.max(row - r0, 0), 1)
+
+  const samples: Array<[number, number]> = [
+    [values[r0 * info.width + c0], (1 - fr) * (1 - fc)],
+    [values[r0 * info.width + c1], (1 - fr) * fc],
+    [values[r1 * info.width + c0], fr * (1 - fc)],
+    [values[r1 * info.width + c1], fr * fc]
+  ]
+
+  let weighted = 0
+  let totalWeight = 0
+  for (const [value, weight] of samples) {
+    if (value === info.noData || !isFinite(value)) continue
+    weighted += value * weight
+    totalWeight += weight
+  }
+  return totalWeight > 0 ? weighted / totalWeight : null
+}
+
+class GeoTiffRasterStore {
+  private rasters = new Map<string, RasterInfo>()
+  private decoded = new Map<string, ArrayLike<number>>()
+  private loadPromise: Promise<void> | null = null
+
+  /**
+   * Read the raster index from IndexedDB and register providers. Safe to call repeatedly.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const db = await openLocalDemDatabase()
+        if (!db) return
+        const store = db.transaction(RASTER_STORE, 'readonly').objectStore(RASTER_STORE)
+        const stored: RasterInfo[] = await promisifyRequest(store.getAll())
+        stored.forEach(info => {
+          this.rasters.set(info.id, info)
+          this.registerProvider(info)
+        })
+      })().catch(error => {
+        console.warn('Failed to load local GeoTIFF rasters:', error)
+      })
+    }
+    return this.loadPromise
+  }
+
+  /**
+   * Re-read the raster index to pick up imports and removals made by another context
+   * sharing the database, such as the page when running in the profile worker
+   */
+  async sync(): Promise<void> {
+    const db = await openLocalDemDatabase()
+    if (!db) return
+    const store = db.transaction(RASTER_STORE, 'readonly').objectStore(RASTER_STORE)
+    const stored: RasterInfo[] = await promisifyRequest(store.getAll())
+    const current = new Map(stored.map(info => [info.id, info]))
+
+    this.rasters.forEach((_, id) => {
+      if (current.has(id)) return
+      this.decoded.delete(id)
+      elevationProviders.unregister(PROVIDER_PREFIX + id)
+    })
+    current.forEach((info, id) => {
+      if (!this.rasters.has(id)) this.registerProvider(info)
+    })
+    this.rasters = current
+  }
+
+  list(): RasterInfo[] {
+    return [...this.rasters.values()].sort((a, b) => a.resolutionMeters - b.resolutionMeters)
+  }
+
+  /**
+   * Import GeoTIFF files. Files that cannot be read are reported in `skipped`.
+   */
+  async importFiles(files: File[]): Promise<{ imported: RasterInfo[], skipped: Array<{ name: string, reason: string }> }> {
+    await this.load()
+    const imported: RasterInfo[] = []
+    const skipped: Array<{ name: string, reason: string }> = []
+    const db = await openLocalDemDatabase()
+
+    for (const file of files) {
+      try {
+        const buffer = await file.arrayBuffer()
+        const info = await describeRaster(file.name, buffer)
+
+        if (db) {
+          const transaction = db.transaction([RASTER_STORE, RASTER_DATA_STORE], 'readwrite')
+          transaction.objectStore(RASTER_STORE).put(info)
+          transaction.objectStore(RASTER_DATA_STORE).put({ id: info.id, data: buffer } satisfies StoredRasterData)
+          await transactionDone(transaction)
+        }
+
+        this.rasters.set(info.id, info)
+        this.registerProvider(info)
+        imported.push(info)
+      } catch (error) {
+        skipped.push({ name: file.name, reason: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    return { imported, skipped }
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await openLocalDemDatabase()
+    if (db) {
+      const transaction = db.transaction([RASTER_STORE, RASTER_DATA_STORE], 'readwrite')
+      transaction.objectStore(RASTER_STORE).delete(id)
+      transaction.objectStore(RASTER_DATA_STORE).delete(id)
+      await transactionDone(transaction)
+    }
+    this.rasters.delete(id)
+    this.decoded.delete(id)
+    elevationProviders.unregister(PROVIDER_PREFIX + id)
+  }
+
+  /**
+   * Elevation for each point from one raster, null outside it or on no-data pixels
+   */
+  async lookup(id: string, points: LatLngPoint[]): Promise<Array<number | null>> {
+    const info = this.rasters.get(id)
+    const values = info ? await this.getValues(id) : null
+    if (!info || !values) return points.map(() => null)
+    return points.map(point => sampleRaster(info, values, point.lat, point.lng))
+  }
+
+  private async getValues(id: string): Promise<ArrayLike<number> | null> {
+    const cached = this.decoded.get(id)
+    if (cached) {
+      // Refresh recency
+      this.decoded.delete(id)
+      this.decoded.set(id, cached)
+      return cached
+    }
+
+    const db = await openLocalDemDatabase()
+    if (!db) return null
+    const store = db.transaction(RASTER_DATA_STORE, 'readonly').objectStore(RASTER_DATA_STORE)
+    const stored: StoredRasterData | undefined = await promisifyRequest(store.get(id))
+    if (!stored) return null
+
+    const image = await (await fromArrayBuffer(stored.data)).getImage()
+    const values = await image.readRasters({ samples: [0], interleave: true }) as unknown as ArrayLike<number>
+
+    this.decoded.set(id, values)
+    while (this.decoded.size > MAX_DECODED_RASTERS) {
+      this.decoded.delete(this.decoded.keys().next().value!)
+    }
+    return values
+  }
+
+  private registerProvider(info: RasterInfo) {
+    elevationProviders.register({
+      id: PROVIDER_PREFIX + info.id,
+      label: info.name,
+      description: `${formatResolution(info.resolutionMeters)} · ${formatExtent(info.bbox)}`,
+      coverage: [{ bbox: info.bbox }],
+      resolution: info.resolutionMeters,
+      // French rasters without a declared datum are assumed to use the mainland levelling
+      verticalDatum: info.verticalDatum ?? (info.crs === 'EPSG:2154' ? 'NGF-IGN69' : 'Unknown'),
+      // GeoTIFFs carry no accuracy metadata; DTMs are typically good to a fifth of their pixel size
+      verticalAccuracy: Math.max(0.1, info.resolutionMeters / 5),
+      priority: 0,
+      maxBatchSize: 10000,
+      timeout: 0,
+      lookup: (points) => this.lookup(info.id, points)
+    })
+  }
+}
+
+export const geotiffRasters = new GeoTiffRasterStore()
+export { formatExtent, formatResolution }
+export type { RasterInfo }
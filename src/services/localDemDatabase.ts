@@ -0,0 +1,39 @@
+// IndexedDB database holding DEM files imported for offline elevation lookups
+
+import { isIndexedDBAvailable, openDatabase } from '../lib/idb'
+
+const DB_NAME = 'gps-trajectory-planner-dem'
+const DB_VERSION = 2
+
+// Tile metadata, kept apart from the raw samples so listing tiles stays cheap
+export const SRTM_TILE_STORE = 'srtmTiles'
+export const SRTM_TILE_DATA_STORE = 'srtmTileData'
+// GeoTIFF raster metadata and original file contents
+export const RASTER_STORE = 'rasters'
+export const RASTER_DATA_STORE = 'rasterData'
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+/**
+ * Open the local DEM database, or resolve with null where IndexedDB is unavailable
+ */
+export function openLocalDemDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = isIndexedDBAvailable()
+      ? openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+          if (oldVersion < 1) {
+            db.createObjectStore(SRTM_TILE_STORE, { keyPath: 'name' })
+            db.createObjectStore(SRTM_TILE_DATA_STORE, { keyPath: 'name' })
+          }
+          if (oldVersion < 2) {
+            db.createObjectStore(RASTER_STORE, { keyPath: 'id' })
+            db.createObjectStore(RASTER_DATA_STORE, { keyPath: 'id' })
+          }
+        }).catch(error => {
+          console.warn('Local DEM storage unavailable:', error)
+          return null
+        })
+      : Promise.resolve(null)
+  }
+  return dbPromise
+}
@@ -0,0 +1,239 @@
+// Elevation provider health tracking
+// Records the outcome and latency of every remote provider request. Providers that keep
+// failing are skipped for a growing cool-down (circuit breaker), after which a single
+// trial request decides whether they are used again, and providers covering a location
+// are reordered so fast, healthy ones are tried first.
+
+import type { ElevationProvider } from './elevationProviders'
+
+interface ProviderHealth {
+  providerId: string
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  /**
+   * Smoothed response time of successful requests in milliseconds per requested
+   * location, so batch and single-location requests compare fairly
+   */
+  averageLatency: number | null
+  lastError: string | null
+  /**
+   * Requests are skipped until this time (epoch ms), then the circuit is half-open;
+   * null while the circuit is closed
+   */
+  openUntil: number | null
+  /** Times the circuit opened without a success in between, drives the back-off */
+  trips: number
+  updatedAt: number
+}
+
+type ProviderState = 'unused' | 'healthy' | 'degraded' | 'open'
+
+// Consecutive failures before a provider is skipped
+const FAILURE_THRESHOLD = 3
+// First cool-down, doubled on every trip without a success in between
+const BASE_COOLDOWN_MS = 30 * 1000
+const MAX_COOLDOWN_MS = 10 * 60 * 1000
+// Weight of the latest sample in the latency average
+const LATENCY_SMOOTHING = 0.3
+// Providers slower or less reliable than this are tried after their peers
+const SLOW_LATENCY_MS = 3000
+const MIN_SUCCESS_RATE = 0.5
+// Requests needed before the success rate is trusted
+const MIN_SAMPLES = 4
+// Coverage tier of providers without a coverage area
+const GLOBAL_TIER = 2
+
+function createHealth(providerId: string): ProviderHealth {
+  return {
+    providerId,
+    successes: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    averageLatency: null,
+    lastError: null,
+    openUntil: null,
+    trips: 0,
+    updatedAt: 0
+  }
+}
+
+/**
+ * Local sources first, then regional datasets, then global ones, matching
+ * ElevationProviderRegistry.forLocation
+ */
+function coverageTier(provider: ElevationProvider): number {
+  if (provider.lookup) return 0
+  return provider.coverage ? 1 : GLOBAL_TIER
+}
+
+class ProviderHealthTracker {
+  private health = new Map<string, ProviderHealth>()
+  private listeners = new Set<() => void>()
+  private snapshot: ProviderHealth[] = []
+  // Half-open providers whose trial request is in flight
+  private trials = new Set<string>()
+
+  /**
+   * Record a successful request for `locations` points that took `latency` ms
+   */
+  recordSuccess(providerId: string, latency: number, locations = 1) {
+    const previous = this.get(providerId)
+    const sample = latency / Math.max(locations, 1)
+    this.trials.delete(providerId)
+    this.update({
+      ...previous,
+      successes: previous.successes + 1,
+      consecutiveFailures: 0,
+      averageLatency: previous.averageLatency === null
+        ? sample
+        : previous.averageLatency + (sample - previous.averageLatency) * LATENCY_SMOOTHING,
+      openUntil: null,
+      trips: 0,
+      updatedAt: Date.now()
+    })
+  }
+
+  recordFailure(providerId: string, error: string) {
+    const previous = this.get(providerId)
+    const now = Date.now()
+    const consecutiveFailures = previous.consecutiveFailures + 1
+    this.trials.delete(providerId)
+    const next: ProviderHealth = {
+      ...previous,
+      failures: previous.failures + 1,
+      consecutiveFailures,
+      lastError: error,
+      updatedAt: now
+    }
+
+    // Also re-opens after a failed trial request once the cool-down has elapsed
+    if (consecutiveFailures >= FAILURE_THRESHOLD) {
+      next.trips = previous.trips + 1
+      next.openUntil = now + Math.min(BASE_COOLDOWN_MS * 2 ** (next.trips - 1), MAX_COOLDOWN_MS)
+      console.warn(`Skipping ${providerId} for ${Math.round((next.openUntil - now) / 1000)}s after ${consecutiveFailures} consecutive failures`)
+    }
+    this.update(next)
+  }
+
+  get(providerId: string): ProviderHealth {
+    return this.health.get(providerId) ?? createHealth(providerId)
+  }
+
+  /**
+   * Whether a request may be sent: always while the circuit is closed, and once the
+   * cool-down has elapsed only while no trial request is in flight
+   */
+  isAvailable(providerId: string, now = Date.now()): boolean {
+    const { openUntil } = this.get(providerId)
+    if (openUntil === null) return true
+    return now >= openUntil && !this.trials.has(providerId)
+  }
+
+  /**
+   * Claim a request slot just before sending. A half-open circuit lets exactly one
+   * trial request through until its success or failure is recorded; returns false
+   * when the request must not be sent.
+   */
+  acquire(providerId: string, now = Date.now()): boolean {
+    if (!this.isAvailable(providerId, now)) return false
+    if (this.get(providerId).openUntil !== null) this.trials.add(providerId)
+    return true
+  }
+
+  /**
+   * Free the trial slot of a request that ended without an outcome, e.g. a cancelled one
+   */
+  release(providerId: string) {
+    this.trials.delete(providerId)
+  }
+
+  getState(providerId: string, now = Date.now()): ProviderState {
+    const health = this.get(providerId)
+    if (!this.isAvailable(providerId, now)) return 'open'
+    if (health.successes + health.failures === 0) return 'unused'
+    return this.isDegraded(health) ? 'degraded' : 'healthy'
+  }
+
+  /**
+   * Drop providers whose circuit is open and order the rest so that, within each
+   * coverage tier, healthy providers come before degraded ones and global providers
+   * are tried fastest first. The input order is kept otherwise.
+   */
+  rank(providers: ElevationProvider[]): ElevationProvider[] {
+    const now = Date.now()
+    const sortKey = (provider: ElevationProvider) => {
+      const health = this.get(provider.id)
+      const tier = coverageTier(provider)
+      return {
+        tier,
+        degraded: this.isDegraded(health) ? 1 : 0,
+        // Regional providers stay ordered by resolution; unknown latencies go first to be measured
+        latency: tier === GLOBAL_TIER ? health.averageLatency ?? 0 : 0
+      }
+    }
+
+    return providers
+      .filter(provider => provider.lookup || this.isAvailable(provider.id, now))
+      .map((provider, index) => ({ provider, index, key: sortKey(provider) }))
+      .sort((a, b) =>
+        a.key.tier - b.key.tier ||
+        a.key.degraded - b.key.degraded ||
+        a.key.latency - b.key.latency ||
+        a.index - b.index
+      )
+      .map(({ provider }) => provider)
+  }
+
+  /**
+   * All recorded health entries. The returned array is stable between changes
+   * so it can be used with useSyncExternalStore.
+   */
+  list(): ProviderHealth[] {
+    return this.snapshot
+  }
+
+  /**
+   * Adopt entries recorded in another context (the profile worker or the page),
+   * keeping whichever side saw the provider most recently
+   */
+  merge(entries: ProviderHealth[]) {
+    let changed = false
+    entries.forEach(entry => {
+      const current = this.health.get(entry.providerId)
+      if (!current || entry.updatedAt > current.updatedAt) {
+        this.health.set(entry.providerId, entry)
+        changed = true
+      }
+    })
+    if (changed) this.notify()
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private isDegraded(health: ProviderHealth): boolean {
+    const total = health.successes + health.failures
+    const successRate = total > 0 ? health.successes / total : 1
+    return (total >= MIN_SAMPLES && successRate < MIN_SUCCESS_RATE) ||
+      (health.averageLatency !== null && health.averageLatency > SLOW_LATENCY_MS)
+  }
+
+  private update(health: ProviderHealth) {
+    this.health.set(health.providerId, health)
+    this.notify()
+  }
+
+  private notify() {
+    this.snapshot = [...this.health.values()]
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const providerHealth = new ProviderHealthTracker()
+export { GLOBAL_TIER, coverageTier }
+export type { ProviderHealth, ProviderState }
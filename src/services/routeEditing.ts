@@ -0,0 +1,159 @@
+// Route editing helpers
+// Pure functions for inserting, reordering and bulk-editing waypoints; the caller
+// owns the state and decides what to do with elevation lookups.
+
+import type { RoutePoint } from '../types/trajectory'
+import { createRoutePointId, distanceBetween } from './formats/common'
+
+interface LatLngLike {
+  lat: number
+  lng: number
+}
+
+const DEFAULT_NAME_PATTERN = /^Waypoint \d+$/
+
+/**
+ * Default waypoint name for a position in the route
+ */
+export function defaultWaypointName(index: number): string {
+  return `Waypoint ${index + 1}`
+}
+
+/**
+ * Rename points that still carry a default name to match their position; names the
+ * user typed are left alone
+ */
+export function renumberWaypoints(points: RoutePoint[]): RoutePoint[] {
+  return points.map((point, index) => {
+    if (!DEFAULT_NAME_PATTERN.test(point.name)) return point
+    const name = defaultWaypointName(index)
+    return point.name === name ? point : { ...point, name }
+  })
+}
+
+/**
+ * Index of the route segment (from point i to i + 1) closest to a position, compared
+ * in a local flat projection around it
+ */
+export function nearestSegment(points: RoutePoint[], position: LatLngLike): number {
+  const cosLat = Math.cos(position.lat * Math.PI / 180)
+  const project = (p: LatLngLike) => ({ x: (p.lng - position.lng) * cosLat, y: p.lat - position.lat })
+
+  let nearest = 0
+  let nearestDistance = Infinity
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = project(points[i])
+    const b = project(points[i + 1])
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSq = dx * dx + dy * dy
+    // The position is the origin of the projection
+    const t = lengthSq > 0 ? Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSq)) : 0
+    const distance = Math.hypot(a.x + dx * t, a.y + dy * t)
+    if (distance < nearestDistance) {
+      nearest = i
+      nearestDistance = distance
+    }
+  }
+  return nearest
+}
+
+/**
+ * Insert a new waypoint between points `segment` and `segment + 1`. Its altitude and
+ * timestamp are interpolated by distance from the neighbors, so the points around it
+ * keep their times, and default names after it are renumbered.
+ */
+export function insertRoutePoint(points: RoutePoint[], segment: number, position: LatLngLike): { points: RoutePoint[], inserted: RoutePoint } {
+  const previous = points[segment]
+  const next = points[segment + 1]
+  if (!previous || !next) {
+    throw new Error(`Route has no segment ${segment + 1}`)
+  }
+
+  const before = distanceBetween(previous, position)
+  const after = distanceBetween(position, next)
+  const t = before + after > 0 ? before / (before + after) : 0.5
+
+  const inserted: RoutePoint = {
+    id: createRoutePointId(),
+    lat: position.lat,
+    lng: position.lng,
+    altitude: Math.round(previous.altitude + (next.altitude - previous.altitude) * t),
+    timestamp: Math.round(previous.timestamp + (next.timestamp - previous.timestamp) * t),
+    name: defaultWaypointName(segment + 1)
+  }
+
+  const renumbered = renumberWaypoints([...points.slice(0, segment + 1), inserted, ...points.slice(segment + 1)])
+  return { points: renumbered, inserted: renumbered[segment + 1] }
+}
+
+/**
+ * Timestamps belong to positions in the route rather than to points, so reordering
+ * never makes time run backwards: the reordered points take over the original times
+ * slot by slot
+ */
+function keepTimestampSlots(original: RoutePoint[], reordered: RoutePoint[]): RoutePoint[] {
+  return renumberWaypoints(reordered.map((point, index) =>
+    point.timestamp === original[index].timestamp ? point : { ...point, timestamp: original[index].timestamp }))
+}
+
+/**
+ * Move the point at `from` to position `to`
+ */
+export function reorderRoutePoints(points: RoutePoint[], from: number, to: number): RoutePoint[] {
+  if (from === to) return points
+  const reordered = [...points]
+  const [moved] = reordered.splice(from, 1)
+  reordered.splice(to, 0, moved)
+  return keepTimestampSlots(points, reordered)
+}
+
+/**
+ * Reverse the order of the selected points within the positions they occupy; with
+ * every point selected this reverses the whole route
+ */
+export function reverseRoutePoints(points: RoutePoint[], ids: ReadonlySet<string>): RoutePoint[] {
+  const reversed = points.filter(point => ids.has(point.id)).reverse()
+  let next = 0
+  return keepTimestampSlots(points, points.map(point => ids.has(point.id) ? reversed[next++] : point))
+}
+
+export function deleteRoutePoints(points: RoutePoint[], ids: ReadonlySet<string>): RoutePoint[] {
+  return renumberWaypoints(points.filter(point => !ids.has(point.id)))
+}
+
+/**
+ * Set or offset the altitude of the selected points. The result no longer comes from
+ * an elevation source, so the provenance is dropped.
+ */
+export function changeRouteAltitudes(points: RoutePoint[], ids: ReadonlySet<string>, change: { set: number } | { offset: number }): RoutePoint[] {
+  return points.map(point => ids.has(point.id)
+    ? { ...point, altitude: 'set' in change ? change.set : point.altitude + change.offset, altitudeSource: undefined }
+    : point)
+}
+
+/**
+ * Shift the timestamps of the selected points by `seconds`. Unselected points keep
+ * their times, so a shift that would carry a selected point past a neighbor is refused
+ * rather than reordering the schedule.
+ */
+export function shiftRouteTimestamps(points: RoutePoint[], ids: ReadonlySet<string>, seconds: number): RoutePoint[] {
+  if (seconds === 0 || !points.some(point => ids.has(point.id))) return points
+
+  const shifted = points.map(point => ids.has(point.id) ? { ...point, timestamp: point.timestamp + seconds } : point)
+  shifted.forEach((point, index) => {
+    if (!ids.has(point.id)) return
+    const previous = shifted[index - 1]
+    const next = shifted[index + 1]
+    if (!previous && point.timestamp < 0) {
+      throw new Error('Timestamps cannot be negative')
+    }
+    if (previous && point.timestamp < previous.timestamp) {
+      throw new Error(`${point.name} would be reached before ${previous.name}`)
+    }
+    if (next && point.timestamp > next.timestamp) {
+      throw new Error(`${point.name} would be reached after ${next.name}`)
+    }
+  })
+  return shifted
+}
@@ -0,0 +1,152 @@
+// Route timing model
+// Derives waypoint times from how fast the aircraft moves rather than a fixed spacing:
+// each leg takes as long as the slower of its horizontal distance at ground speed and
+// its altitude change at the climb or descent rate, and the aircraft hovers at every
+// waypoint for its hold time. Pinned waypoint times are kept, and the legs between two
+// pins are flown faster or slower so they arrive exactly on time.
+
+import type { RoutePoint } from '../types/trajectory'
+import { distanceBetween } from './formats/common'
+
+type Position = Pick<RoutePoint, 'lat' | 'lng' | 'altitude'>
+
+interface TimingSettings {
+  /** Horizontal speed in m/s, unless a waypoint sets its own leg speed */
+  groundSpeed: number
+  /** Vertical speeds in m/s, both positive */
+  climbRate: number
+  descentRate: number
+  /** Seconds spent at each intermediate waypoint without its own hold time */
+  dwellTime: number
+}
+
+/** The leg from a waypoint to the next one, as planned by `retimeRoute` */
+interface TimedLeg {
+  duration: number
+  /** Horizontal speed in m/s actually flown on the leg */
+  groundSpeed: number
+  /** Horizontal speed in m/s the settings ask for */
+  plannedSpeed: number
+  /** Vertical speed in m/s actually flown on the leg, positive when climbing */
+  verticalSpeed: number
+  /** Whether the leg climbs or descends faster than the configured rate allows */
+  tooSteep: boolean
+  /** Whether the leg was fitted between pinned times rather than flown as set */
+  solved: boolean
+}
+
+const DEFAULT_TIMING_SETTINGS: TimingSettings = {
+  groundSpeed: 10,
+  climbRate: 3,
+  descentRate: 2,
+  dwellTime: 0
+}
+
+// Timestamps are kept to a tenth of a second, the precision of share links
+const roundTime = (seconds: number) => Math.round(seconds * 10) / 10
+
+// Slack before a fitted leg counts as flown faster than its configured speed or rate
+const RATE_TOLERANCE = 1.05
+
+/**
+ * Seconds spent at the waypoint at `index` before leaving for the next one. The
+ * default dwell applies between the first and the last waypoint only.
+ */
+function dwellAt(points: RoutePoint[], index: number, settings: TimingSettings): number {
+  const point = points[index]
+  if (point.holdTime !== undefined) return point.holdTime
+  return index > 0 && index < points.length - 1 ? settings.dwellTime : 0
+}
+
+function plannedSpeed(from: RoutePoint, settings: TimingSettings): number {
+  return from.legSpeed ?? settings.groundSpeed
+}
+
+/**
+ * Seconds to fly from one waypoint to the next at the configured speeds
+ */
+export function legDuration(from: RoutePoint, to: Position, settings: TimingSettings): number {
+  const horizontal = distanceBetween(from, to) / plannedSpeed(from, settings)
+  const climb = to.altitude - from.altitude
+  const vertical = climb >= 0 ? climb / settings.climbRate : -climb / settings.descentRate
+  return Math.max(horizontal, vertical)
+}
+
+/**
+ * Timestamp for a waypoint appended at `position` after the current last one
+ */
+export function nextTimestamp(points: RoutePoint[], position: Position, settings: TimingSettings): number {
+  const last = points[points.length - 1]
+  if (!last) return 0
+  // The last waypoint becomes an intermediate one, so it gets the default dwell
+  const dwell = last.holdTime ?? (points.length > 1 ? settings.dwellTime : 0)
+  return roundTime(last.timestamp + dwell + legDuration(last, position, settings))
+}
+
+/**
+ * Recompute every timestamp from the timing model. Pinned waypoints keep their time;
+ * the first waypoint starts at 0 unless pinned. Throws if two pinned times leave no
+ * room for the hold times between them. The points are returned unchanged when no
+ * time moves. Legs squeezed between pinned times can need more than the climb or
+ * descent rate; they are marked `tooSteep` rather than refused.
+ */
+export function retimeRoute(points: RoutePoint[], settings: TimingSettings): { points: RoutePoint[], legs: TimedLeg[] } {
+  const natural = points.slice(1).map((point, index) => legDuration(points[index], point, settings))
+  const durations = [...natural]
+  const solved = natural.map(() => false)
+
+  // Fit the legs between each pair of anchors, the start and the pinned waypoints
+  const anchors = points.flatMap((point, index) => index === 0 || point.timePinned ? [index] : [])
+  const startTime = points[0]?.timePinned ? points[0].timestamp : 0
+  anchors.forEach((from, anchor) => {
+    const to = anchors[anchor + 1]
+    if (to === undefined) return
+    const fromTime = from === 0 ? startTime : points[from].timestamp
+    let available = points[to].timestamp - fromTime
+    for (let index = from; index < to; index++) {
+      available -= dwellAt(points, index, settings)
+    }
+    if (available <= 0) {
+      throw new Error(`Not enough time between ${points[from].name} and ${points[to].name} to fly between them after hold times`)
+    }
+
+    const flying = natural.slice(from, to).reduce((sum, duration) => sum + duration, 0)
+    for (let index = from; index < to; index++) {
+      // Legs that go nowhere share the time out as hovering
+      durations[index] = flying > 0 ? natural[index] * available / flying : available / (to - from)
+      solved[index] = true
+    }
+  })
+
+  let time = startTime
+  let changed = false
+  const retimed = points.map((point, index) => {
+    if (index > 0) {
+      time += dwellAt(points, index - 1, settings) + durations[index - 1]
+    }
+    const timestamp = point.timePinned ? point.timestamp : roundTime(time)
+    if (point.timePinned) time = point.timestamp
+    if (timestamp === point.timestamp) return point
+    changed = true
+    return { ...point, timestamp }
+  })
+
+  const legs = durations.map((duration, index) => {
+    const distance = distanceBetween(points[index], points[index + 1])
+    const climb = points[index + 1].altitude - points[index].altitude
+    const verticalSpeed = duration > 0 ? climb / duration : 0
+    const rate = climb >= 0 ? settings.climbRate : settings.descentRate
+    return {
+      duration,
+      groundSpeed: duration > 0 ? distance / duration : 0,
+      plannedSpeed: plannedSpeed(points[index], settings),
+      verticalSpeed,
+      tooSteep: Math.abs(verticalSpeed) > rate * RATE_TOLERANCE,
+      solved: solved[index]
+    }
+  })
+  return { points: changed ? retimed : points, legs }
+}
+
+export { DEFAULT_TIMING_SETTINGS, RATE_TOLERANCE }
+export type { TimedLeg, TimingSettings }
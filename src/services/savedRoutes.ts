@@ -0,0 +1,188 @@
+// Route workspace
+// Keeps every planned route in IndexedDB so nothing is lost on reload, together with
+// the session state needed to reopen the last route where the map was left.
+
+import { isIndexedDBAvailable, openDatabase, promisifyRequest, transactionDone } from '../lib/idb'
+import type { RoutePoint } from '../types/trajectory'
+import type { TimingSettings } from './routeTiming'
+
+interface SavedRoute {
+  id: string
+  name: string
+  points: RoutePoint[]
+  createdAt: string
+  updatedAt: string
+}
+
+interface MapView {
+  lat: number
+  lng: number
+  zoom: number
+}
+
+interface WorkspaceSession {
+  activeRouteId: string | null
+  mapView: MapView | null
+  /** Timing model settings, shared by all routes */
+  timing: TimingSettings | null
+}
+
+const DB_NAME = 'gps-trajectory-planner-routes'
+const DB_VERSION = 1
+const ROUTE_STORE = 'routes'
+// Single-record store for the session, keyed by SESSION_KEY
+const SESSION_STORE = 'session'
+const SESSION_KEY = 'current'
+
+const EMPTY_SESSION: WorkspaceSession = { activeRouteId: null, mapView: null, timing: null }
+
+function createRouteId(): string {
+  return `route_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+class SavedRouteStore {
+  private routes = new Map<string, SavedRoute>()
+  private listeners = new Set<() => void>()
+  private snapshot: SavedRoute[] = []
+  private session: WorkspaceSession = EMPTY_SESSION
+  private dbPromise: Promise<IDBDatabase | null> | null = null
+  private loadPromise: Promise<void> | null = null
+
+  private getDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = isIndexedDBAvailable()
+        ? openDatabase(DB_NAME, DB_VERSION, (db) => {
+            db.createObjectStore(ROUTE_STORE, { keyPath: 'id' })
+            db.createObjectStore(SESSION_STORE)
+          }).catch(error => {
+            console.warn('Route storage unavailable, routes will not be saved:', error)
+            return null
+          })
+        : Promise.resolve(null)
+    }
+    return this.dbPromise
+  }
+
+  /**
+   * Read saved routes and the last session. Safe to call repeatedly; without
+   * IndexedDB the workspace still works but only lasts for the page's lifetime.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const db = await this.getDatabase()
+        if (!db) return
+        const transaction = db.transaction([ROUTE_STORE, SESSION_STORE], 'readonly')
+        const [routes, session] = await Promise.all([
+          promisifyRequest<SavedRoute[]>(transaction.objectStore(ROUTE_STORE).getAll()),
+          promisifyRequest<WorkspaceSession | undefined>(transaction.objectStore(SESSION_STORE).get(SESSION_KEY))
+        ])
+        routes.forEach(route => this.routes.set(route.id, route))
+        this.session = { ...EMPTY_SESSION, ...session }
+        this.notify()
+      })().catch(error => {
+        console.warn('Failed to load saved routes:', error)
+      })
+    }
+    return this.loadPromise
+  }
+
+  get(id: string): SavedRoute | undefined {
+    return this.routes.get(id)
+  }
+
+  /**
+   * Saved routes, most recently changed first. The returned array is stable between
+   * changes so it can be used with useSyncExternalStore.
+   */
+  list(): SavedRoute[] {
+    return this.snapshot
+  }
+
+  getSession(): WorkspaceSession {
+    return this.session
+  }
+
+  async create(name: string, points: RoutePoint[] = []): Promise<SavedRoute> {
+    const now = new Date().toISOString()
+    const route: SavedRoute = { id: createRouteId(), name, points, createdAt: now, updatedAt: now }
+    await this.put(route)
+    return route
+  }
+
+  async duplicate(id: string): Promise<SavedRoute> {
+    const original = this.requireRoute(id)
+    return this.create(`${original.name} (copy)`, original.points)
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    const route = this.requireRoute(id)
+    if (route.name === name) return
+    await this.put({ ...route, name, updatedAt: new Date().toISOString() })
+  }
+
+  async updatePoints(id: string, points: RoutePoint[]): Promise<void> {
+    // The route may have been deleted while an autosave was pending
+    const route = this.routes.get(id)
+    if (!route || route.points === points) return
+    await this.put({ ...route, points, updatedAt: new Date().toISOString() })
+  }
+
+  /**
+   * Put back a route removed earlier, as it was
+   */
+  async restore(route: SavedRoute): Promise<void> {
+    await this.put(route)
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!this.routes.delete(id)) return
+    this.notify()
+    const db = await this.getDatabase()
+    if (!db) return
+    const transaction = db.transaction(ROUTE_STORE, 'readwrite')
+    transaction.objectStore(ROUTE_STORE).delete(id)
+    await transactionDone(transaction)
+  }
+
+  async saveSession(changes: Partial<WorkspaceSession>): Promise<void> {
+    this.session = { ...this.session, ...changes }
+    const db = await this.getDatabase()
+    if (!db) return
+    const transaction = db.transaction(SESSION_STORE, 'readwrite')
+    transaction.objectStore(SESSION_STORE).put(this.session, SESSION_KEY)
+    await transactionDone(transaction)
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private requireRoute(id: string): SavedRoute {
+    const route = this.routes.get(id)
+    if (!route) throw new Error('Route no longer exists')
+    return route
+  }
+
+  // Memory first so the UI updates immediately, then IndexedDB
+  private async put(route: SavedRoute): Promise<void> {
+    this.routes.set(route.id, route)
+    this.notify()
+    const db = await this.getDatabase()
+    if (!db) return
+    const transaction = db.transaction(ROUTE_STORE, 'readwrite')
+    transaction.objectStore(ROUTE_STORE).put(route)
+    await transactionDone(transaction)
+  }
+
+  private notify() {
+    this.snapshot = [...this.routes.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const savedRoutes = new SavedRouteStore()
+export type { MapView, SavedRoute, WorkspaceSession }
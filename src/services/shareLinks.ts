@@ -0,0 +1,88 @@
+// Shareable route links
+// Encodes a route into the URL query so a link opens the same trajectory, map view and
+// selected waypoint without a server. Positions, altitudes and times travel as one
+// encoded polyline; names other than the route name, mission commands and altitude
+// provenance are not included.
+
+import type { RoutePoint } from '../types/trajectory'
+import type { MapView } from './savedRoutes'
+import { createRoutePointId } from './formats/common'
+import { decodePolyline, encodePolyline } from './formats/polyline'
+import { defaultWaypointName } from './routeEditing'
+
+interface SharedRoute {
+  name: string | null
+  points: RoutePoint[]
+  view: MapView | null
+  /** Index of the selected waypoint */
+  selectedIndex: number | null
+}
+
+// Query parameters
+const POINTS_PARAM = 'p'
+const NAME_PARAM = 'name'
+const VIEW_PARAM = 'v'
+const SELECTED_PARAM = 's'
+
+// lat and lng to about a meter, altitude and time to a tenth
+const POLYLINE_FACTORS = [1e5, 1e5, 10, 10]
+
+/**
+ * Whether the query carries a shared route
+ */
+export function hasSharedRoute(params: URLSearchParams): boolean {
+  return params.has(POINTS_PARAM)
+}
+
+/**
+ * Link to `baseUrl` carrying the route
+ */
+export function createShareUrl(baseUrl: string, route: { name: string, points: RoutePoint[] }, view: MapView | null, selectedIndex: number | null): string {
+  const url = new URL(baseUrl)
+  url.search = ''
+  url.searchParams.set(NAME_PARAM, route.name)
+  url.searchParams.set(POINTS_PARAM, encodePolyline(
+    route.points.map(point => [point.lat, point.lng, point.altitude, point.timestamp]),
+    POLYLINE_FACTORS
+  ))
+  if (view) {
+    url.searchParams.set(VIEW_PARAM, `${view.lat.toFixed(5)},${view.lng.toFixed(5)},${view.zoom}`)
+  }
+  if (selectedIndex !== null && selectedIndex >= 0) {
+    url.searchParams.set(SELECTED_PARAM, String(selectedIndex))
+  }
+  return url.toString()
+}
+
+/**
+ * Read a shared route from the query. Throws if the encoded points are damaged, for
+ * example by a link cut off while copying; a bad view or selection is ignored.
+ */
+export function parseSharedRoute(params: URLSearchParams): SharedRoute {
+  const rows = decodePolyline(params.get(POINTS_PARAM) ?? '', POLYLINE_FACTORS)
+  if (rows.length === 0) {
+    throw new Error('The link contains no waypoints')
+  }
+  if (rows.some(([lat, lng]) => Math.abs(lat) > 90 || Math.abs(lng) > 180)) {
+    throw new Error('The link contains invalid coordinates')
+  }
+
+  const points: RoutePoint[] = rows.map(([lat, lng, altitude, timestamp], index) => ({
+    id: createRoutePointId(),
+    lat,
+    lng,
+    altitude,
+    timestamp,
+    name: defaultWaypointName(index)
+  }))
+
+  const [lat, lng, zoom] = (params.get(VIEW_PARAM) ?? '').split(',').map(Number)
+  const view = [lat, lng, zoom].every(value => Number.isFinite(value)) ? { lat, lng, zoom } : null
+
+  const selected = Number(params.get(SELECTED_PARAM) ?? NaN)
+  const selectedIndex = Number.isInteger(selected) && selected >= 0 && selected < points.length ? selected : null
+
+  return { name: params.get(NAME_PARAM), points, view, selectedIndex }
+}
+
+export type { SharedRoute }
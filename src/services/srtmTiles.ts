@@ -0,0 +1,289 @@
+// Local SRTM elevation tiles
+// Imports SRTM1 (1 arc-second) and SRTM3 (3 arc-second) .hgt files, optionally zipped,
+// stores them in IndexedDB and serves them as the 'local-srtm' elevation provider.
+
+import { promisifyRequest, transactionDone } from '../lib/idb'
+import { isZipArchive, readZipEntries } from '../lib/zip'
+import { elevationProviders } from './elevationProviders'
+import type { ElevationProvider, LatLngPoint } from './elevationProviders'
+import { openLocalDemDatabase, SRTM_TILE_DATA_STORE, SRTM_TILE_STORE } from './localDemDatabase'
+
+interface SrtmTileInfo {
+  /** Tile name such as N43E001 */
+  name: string
+  /** Latitude of the southern edge */
+  south: number
+  /** Longitude of the western edge */
+  west: number
+  /** Samples per row and column (3601 for SRTM1, 1201 for SRTM3) */
+  size: number
+  importedAt: string
+}
+
+interface StoredSrtmTileData {
+  name: string
+  data: ArrayBuffer
+}
+
+const SRTM_PROVIDER_ID = 'local-srtm'
+// SRTM void marker
+const VOID_VALUE = -32768
+// Decoded tiles kept in memory (an SRTM1 tile is about 25 MB)
+const MAX_LOADED_TILES = 6
+
+const TILE_SIZES: Record<number, number> = {
+  [3601 * 3601 * 2]: 3601,
+  [1201 * 1201 * 2]: 1201
+}
+
+/**
+ * Parse a tile name like N43E001 into its south-west corner
+ */
+function parseTileName(fileName: string): { name: string, south: number, west: number } | null {
+  const match = /([NS])(\d{2})([EW])(\d{3})/i.exec(fileName)
+  if (!match) return null
+  const south = Number(match[2]) * (match[1].toUpperCase() === 'S' ? -1 : 1)
+  const west = Number(match[4]) * (match[3].toUpperCase() === 'W' ? -1 : 1)
+  return { name: match[0].toUpperCase(), south, west }
+}
+
+/**
+ * Name of the tile containing a location
+ */
+function tileNameFor(lat: number, lng: number): string {
+  const south = Math.floor(lat)
+  const west = Math.floor(lng)
+  return `${south < 0 ? 'S' : 'N'}${String(Math.abs(south)).padStart(2, '0')}` +
+    `${west < 0 ? 'W' : 'E'}${String(Math.abs(west)).padStart(3, '0')}`
+}
+
+/**
+ * Bilinear interpolation between the four grid cells around a location,
+ * ignoring void samples
+ */
+function sampleTile(tile: SrtmTileInfo, view: DataView, lat: number, lng: number): number | null {
+  const n = tile.size
+  // Rows run from north to south, columns from west to east
+  const row = Math.min(Math.max((tile.south + 1 - lat) * (n - 1), 0), n - 1)
+  const col = Math.min(Math.max((lng - tile.west) * (n - 1), 0), n - 1)
+  const r0 = Math.floor(row)
+  const c0 = Math.floor(col)
+  const r1 = Math.min(r0 + 1, n - 1)
+  const c1 = Math.min(c0 + 1, n - 1)
+  const fr = row - r0
+  const fc = col - c0
+
+  const samples: Array<[number, number]> = [
+    [view.getInt16((r0 * n + c0) * 2, false), (1 - fr) * (1 - fc)],
+    [view.getInt16((r0 * n + c1) * 2, false), (1 - fr) * fc],
+    [view.getInt16((r1 * n + c0) * 2, false), fr * (1 - fc)],
+    [view.getInt16((r1 * n + c1) * 2, false), fr * fc]
+  ]
+
+  let weighted = 0
+  let totalWeight = 0
+  for (const [value, weight] of samples) {
+    if (value === VOID_VALUE) continue
+    weighted += value * weight
+    totalWeight += weight
+  }
+
+  // A location sitting exactly on valid samples can have zero weight for the others
+  if (totalWeight === 0) {
+    const valid = samples.filter(([value]) => value !== VOID_VALUE)
+    return valid.length > 0 ? valid.reduce((sum, [value]) => sum + value, 0) / valid.length : null
+  }
+  return weighted / totalWeight
+}
+
+class SrtmTileStore {
+  private tiles = new Map<string, SrtmTileInfo>()
+  private loaded = new Map<string, DataView>()
+  private loadPromise: Promise<void> | null = null
+
+  /**
+   * Read the tile index from IndexedDB and register the provider. Safe to call repeatedly.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const db = await openLocalDemDatabase()
+        if (!db) return
+        const store = db.transaction(SRTM_TILE_STORE, 'readonly').objectStore(SRTM_TILE_STORE)
+        const stored: SrtmTileInfo[] = await promisifyRequest(store.getAll())
+        stored.forEach(info => this.tiles.set(info.name, info))
+        this.updateProvider()
+      })().catch(error => {
+        console.warn('Failed to load local SRTM tiles:', error)
+      })
+    }
+    return this.loadPromise
+  }
+
+  /**
+   * Re-read the tile index to pick up imports and removals made by another context
+   * sharing the database, such as the page when running in the profile worker
+   */
+  async sync(): Promise<void> {
+    const db = await openLocalDemDatabase()
+    if (!db) return
+    const store = db.transaction(SRTM_TILE_STORE, 'readonly').objectStore(SRTM_TILE_STORE)
+    const stored: SrtmTileInfo[] = await promisifyRequest(store.getAll())
+    const current = new Map(stored.map(info => [info.name, info]))
+
+    // Drop decoded samples of tiles that were removed or re-imported
+    this.tiles.forEach((info, name) => {
+      if (current.get(name)?.importedAt !== info.importedAt) this.loaded.delete(name)
+    })
+    this.tiles = current
+    this.updateProvider()
+  }
+
+  list(): SrtmTileInfo[] {
+    return [...this.tiles.values()].sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Import .hgt files and ZIP archives containing them. Files that are not valid
+   * SRTM tiles are reported in `skipped`.
+   */
+  async importFiles(files: File[]): Promise<{ imported: SrtmTileInfo[], skipped: string[] }> {
+    await this.load()
+    const imported: SrtmTileInfo[] = []
+    const skipped: string[] = []
+
+    const candidates: Array<{ name: string, data: ArrayBuffer }> = []
+    for (const file of files) {
+      const buffer = await file.arrayBuffer()
+      if (isZipArchive(buffer)) {
+        const entries = await readZipEntries(buffer)
+        entries
+          .filter(entry => /\.hgt$/i.test(entry.name))
+          .forEach(entry => candidates.push({
+            name: entry.name,
+            data: entry.data.buffer.slice(entry.data.byteOffset, entry.data.byteOffset + entry.data.byteLength) as ArrayBuffer
+          }))
+      } else {
+        candidates.push({ name: file.name, data: buffer })
+      }
+    }
+
+    const db = await openLocalDemDatabase()
+    for (const candidate of candidates) {
+      const parsed = parseTileName(candidate.name)
+      const size = TILE_SIZES[candidate.data.byteLength]
+      if (!parsed || !size) {
+        skipped.push(candidate.name)
+        continue
+      }
+
+      const info: SrtmTileInfo = {
+        ...parsed,
+        size,
+        importedAt: new Date().toISOString()
+      }
+
+      if (db) {
+        const transaction = db.transaction([SRTM_TILE_STORE, SRTM_TILE_DATA_STORE], 'readwrite')
+        transaction.objectStore(SRTM_TILE_STORE).put(info)
+        transaction.objectStore(SRTM_TILE_DATA_STORE).put({ name: info.name, data: candidate.data } satisfies StoredSrtmTileData)
+        await transactionDone(transaction)
+      }
+
+      this.tiles.set(info.name, info)
+      this.loaded.set(info.name, new DataView(candidate.data))
+      imported.push(info)
+    }
+
+    this.trimLoaded()
+    this.updateProvider()
+    return { imported, skipped }
+  }
+
+  async remove(name: string): Promise<void> {
+    const db = await openLocalDemDatabase()
+    if (db) {
+      const transaction = db.transaction([SRTM_TILE_STORE, SRTM_TILE_DATA_STORE], 'readwrite')
+      transaction.objectStore(SRTM_TILE_STORE).delete(name)
+      transaction.objectStore(SRTM_TILE_DATA_STORE).delete(name)
+      await transactionDone(transaction)
+    }
+    this.tiles.delete(name)
+    this.loaded.delete(name)
+    this.updateProvider()
+  }
+
+  /**
+   * Elevation for each point from the stored tiles, null where no tile covers it
+   */
+  async lookup(points: LatLngPoint[]): Promise<Array<number | null>> {
+    const results: Array<number | null> = []
+    for (const point of points) {
+      const name = tileNameFor(point.lat, point.lng)
+      const tile = this.tiles.get(name)
+      const view = tile ? await this.getTileData(name) : null
+      results.push(tile && view ? sampleTile(tile, view, point.lat, point.lng) : null)
+    }
+    return results
+  }
+
+  private async getTileData(name: string): Promise<DataView | null> {
+    const cached = this.loaded.get(name)
+    if (cached) {
+      // Refresh recency
+      this.loaded.delete(name)
+      this.loaded.set(name, cached)
+      return cached
+    }
+
+    const db = await openLocalDemDatabase()
+    if (!db) return null
+    const store = db.transaction(SRTM_TILE_DATA_STORE, 'readonly').objectStore(SRTM_TILE_DATA_STORE)
+    const tile: StoredSrtmTileData | undefined = await promisifyRequest(store.get(name))
+    if (!tile) return null
+
+    const view = new DataView(tile.data)
+    this.loaded.set(name, view)
+    this.trimLoaded()
+    return view
+  }
+
+  private trimLoaded() {
+    while (this.loaded.size > MAX_LOADED_TILES) {
+      const oldest = this.loaded.keys().next().value!
+      this.loaded.delete(oldest)
+    }
+  }
+
+  /**
+   * Register the provider with the current tile coverage, or remove it when no tiles are stored
+   */
+  private updateProvider() {
+    const tiles = this.list()
+    if (tiles.length === 0) {
+      elevationProviders.unregister(SRTM_PROVIDER_ID)
+      return
+    }
+
+    const hasSrtm1 = tiles.some(tile => tile.size === 3601)
+    const provider: ElevationProvider = {
+      id: SRTM_PROVIDER_ID,
+      label: `Local SRTM tiles (${tiles.length})`,
+      description: `${hasSrtm1 ? 30 : 90} m · ${tiles.map(tile => tile.name).join(', ')}`,
+      coverage: tiles.map(tile => ({
+        bbox: { south: tile.south, west: tile.west, north: tile.south + 1, east: tile.west + 1 }
+      })),
+      resolution: hasSrtm1 ? 30 : 90,
+      verticalDatum: 'EGM96',
+      verticalAccuracy: 16,
+      priority: 0,
+      maxBatchSize: 10000,
+      timeout: 0,
+      lookup: (points) => this.lookup(points)
+    }
+    elevationProviders.register(provider)
+  }
+}
+
+export const srtmTiles = new SrtmTileStore()
+export type { SrtmTileInfo }
@@ -0,0 +1,103 @@
+// Coarse deterministic terrain model
+// Last-resort elevation estimates when no DEM or API can answer. This is not elevation
+// data: only the world's major mountain ranges and plateaus are outlined, as smooth
+// elliptical bumps over a low base with hand-picked typical heights. The same location
+// always gets the same value and neighbouring points vary gradually, but individual
+// valleys, peaks and local relief are not represented.
+
+interface TerrainFeature {
+  name: string
+  lat: number
+  lng: number
+  /** Half-widths in degrees at which the feature falls to ~37% of its height */
+  radiusLat: number
+  radiusLng: number
+  /** Typical elevation above the base in meters */
+  height: number
+}
+
+// Typical low-land elevation in meters
+const BASE_ELEVATION = 100
+
+const CUTOFF_SQUARED = 9
+const CUTOFF_VALUE = Math.exp(-CUTOFF_SQUARED)
+
+// Vertical error reported alongside estimates. Lowland points are usually within a few
+// hundred meters, but inside the outlined ranges valleys and summits can be 1000 m or
+// more away from the smoothed height, so this is a bound rather than a typical error.
+export const TERRAIN_MODEL_ACCURACY = 1000
+// Smallest features are about a quarter of a degree across
+export const TERRAIN_MODEL_RESOLUTION = 25000
+
+const TERRAIN_FEATURES: TerrainFeature[] = [
+  // France and neighbours
+  { name: 'Western Alps', lat: 45.5, lng: 6.8, radiusLat: 1.0, radiusLng: 0.9, height: 1300 },
+  { name: 'Central Alps', lat: 46.5, lng: 8.8, radiusLat: 0.7, radiusLng: 1.5, height: 1400 },
+  { name: 'Eastern Alps', lat: 47.0, lng: 12.5, radiusLat: 0.7, radiusLng: 2.0, height: 1100 },
+  { name: 'Pyrenees', lat: 42.7, lng: 0.8, radiusLat: 0.35, radiusLng: 2.0, height: 1100 },
+  { name: 'Massif Central', lat: 45.3, lng: 3.0, radiusLat: 1.0, radiusLng: 0.9, height: 550 },
+  { name: 'Vosges', lat: 48.1, lng: 7.0, radiusLat: 0.4, radiusLng: 0.25, height: 450 },
+  { name: 'Jura', lat: 46.7, lng: 6.0, radiusLat: 0.4, radiusLng: 0.6, height: 450 },
+  { name: 'Iberian Meseta', lat: 40.0, lng: -4.0, radiusLat: 2.0, radiusLng: 3.0, height: 550 },
+  { name: 'Apennines', lat: 43.0, lng: 12.5, radiusLat: 1.5, radiusLng: 1.0, height: 500 },
+  { name: 'Carpathians', lat: 47.5, lng: 24.0, radiusLat: 1.5, radiusLng: 3.0, height: 500 },
+  { name: 'Scandinavian Mountains', lat: 62.0, lng: 9.0, radiusLat: 3.0, radiusLng: 3.0, height: 600 },
+  { name: 'Caucasus', lat: 42.8, lng: 44.0, radiusLat: 0.8, radiusLng: 4.0, height: 1400 },
+  { name: 'Anatolian Plateau', lat: 39.0, lng: 35.0, radiusLat: 2.0, radiusLng: 6.0, height: 900 },
+
+  // Asia
+  { name: 'Tibetan Plateau', lat: 33.0, lng: 88.0, radiusLat: 4.0, radiusLng: 10.0, height: 4200 },
+  { name: 'Himalaya', lat: 28.5, lng: 85.0, radiusLat: 1.2, radiusLng: 7.0, height: 1500 },
+  { name: 'Pamir and Hindu Kush', lat: 37.0, lng: 72.0, radiusLat: 2.0, radiusLng: 4.0, height: 3000 },
+  { name: 'Tian Shan', lat: 42.0, lng: 80.0, radiusLat: 2.0, radiusLng: 7.0, height: 2300 },
+  { name: 'Iranian Plateau', lat: 32.0, lng: 54.0, radiusLat: 5.0, radiusLng: 8.0, height: 1100 },
+  { name: 'Mongolian Plateau', lat: 47.0, lng: 100.0, radiusLat: 4.0, radiusLng: 10.0, height: 1400 },
+  { name: 'Deccan Plateau', lat: 17.0, lng: 77.0, radiusLat: 5.0, radiusLng: 4.0, height: 450 },
+
+  // Africa
+  { name: 'Ethiopian Highlands', lat: 9.0, lng: 39.0, radiusLat: 4.0, radiusLng: 3.0, height: 1900 },
+  { name: 'East African Plateau', lat: -3.0, lng: 36.0, radiusLat: 5.0, radiusLng: 4.0, height: 1200 },
+  { name: 'Southern African Plateau', lat: -25.0, lng: 25.0, radiusLat: 6.0, radiusLng: 8.0, height: 1000 },
+  { name: 'Atlas', lat: 32.0, lng: -5.0, radiusLat: 1.5, radiusLng: 4.0, height: 1200 },
+
+  // Americas
+  { name: 'Rocky Mountains', lat: 40.0, lng: -107.0, radiusLat: 7.0, radiusLng: 4.0, height: 1800 },
+  { name: 'Appalachians', lat: 38.0, lng: -80.0, radiusLat: 4.0, radiusLng: 2.5, height: 450 },
+  { name: 'Alaska Range', lat: 62.0, lng: -150.0, radiusLat: 3.0, radiusLng: 10.0, height: 800 },
+  { name: 'Mexican Plateau', lat: 22.0, lng: -102.0, radiusLat: 4.0, radiusLng: 4.0, height: 1600 },
+  { name: 'Northern Andes', lat: 2.0, lng: -76.0, radiusLat: 6.0, radiusLng: 1.5, height: 1900 },
+  { name: 'Altiplano', lat: -18.0, lng: -67.5, radiusLat: 6.0, radiusLng: 2.0, height: 3500 },
+  { name: 'Southern Andes', lat: -35.0, lng: -70.0, radiusLat: 8.0, radiusLng: 1.2, height: 1500 },
+  { name: 'Brazilian Highlands', lat: -15.0, lng: -47.0, radiusLat: 6.0, radiusLng: 6.0, height: 700 },
+
+  // Oceania and polar regions
+  { name: 'Great Dividing Range', lat: -28.0, lng: 151.0, radiusLat: 8.0, radiusLng: 2.0, height: 500 },
+  { name: 'Greenland Ice Sheet', lat: 72.0, lng: -40.0, radiusLat: 8.0, radiusLng: 15.0, height: 1900 },
+  { name: 'Antarctic Ice Sheet', lat: -90.0, lng: 0.0, radiusLat: 18.0, radiusLng: Infinity, height: 2400 }
+]
+
+/**
+ * Signed longitude difference in degrees, wrapped to [-180, 180)
+ */
+function longitudeDelta(a: number, b: number): number {
+  return ((a - b + 540) % 360) - 180
+}
+
+/**
+ * Estimated elevation in meters for a location. Deterministic and continuous.
+ */
+export function estimateElevation(lat: number, lng: number): number {
+  let elevation = BASE_ELEVATION
+
+  for (const feature of TERRAIN_FEATURES) {
+    const dLat = (lat - feature.lat) / feature.radiusLat
+    const dLng = longitudeDelta(lng, feature.lng) / feature.radiusLng
+    const distanceSquared = dLat * dLat + dLng * dLng
+    // Cut off at 3 radii, shifted so the contribution reaches exactly zero there
+    if (distanceSquared < CUTOFF_SQUARED) {
+      elevation += feature.height * (Math.exp(-distanceSquared) - CUTOFF_VALUE) / (1 - CUTOFF_VALUE)
+    }
+  }
+
+  return elevation
+}
@@ -0,0 +1,317 @@
+// Trajectory file import and export
+// Each supported export format is described once here; the export select and the import
+// file picker are derived from these lists.
+
+import type { RecordedTrack, RoutePoint, TrajectoryData } from '../types/trajectory'
+import type { AltitudeProfile } from './altitudeService'
+import { exportCsv } from './formats/csv'
+import { exportGeoJson, parseGeoJson } from './formats/geojson'
+import type { TrackLogImport } from './formats/common'
+import { exportGpx, parseGpx } from './formats/gpx'
+import { parseIgc } from './formats/igc'
+import { parseNmea } from './formats/nmea'
+import { parseTcx } from './formats/tcx'
+import { MISSION_ALTITUDE_FRAMES, MISSION_COMMANDS, exportQgcPlan, exportWpl } from './formats/mission'
+import type { MissionAltitudeFrame } from './formats/mission'
+import { TRAJECTORY_FORMAT_VERSION, exportTrajectoryJson, parseTrajectoryJson } from './formats/trajectoryJson'
+import { KML_ALTITUDE_MODES, exportKml, exportKmz, parseKml, parseKmz } from './formats/kml'
+import type { KmlAltitudeMode, KmlImport } from './formats/kml'
+
+interface TrajectoryExportOptions {
+  /** How KML and KMZ viewers interpret waypoint altitudes */
+  altitudeMode: KmlAltitudeMode
+  /** Detailed altitude profile included by formats that can carry one */
+  profile: AltitudeProfile | null
+  /** Altitude reference for drone mission formats */
+  missionFrame: MissionAltitudeFrame
+  /**
+   * Ground elevation under each route point, needed for the terrain mission frame and
+   * KML heights relative to ground
+   */
+  terrainElevations: number[] | null
+}
+
+interface TrajectoryExportFormat {
+  id: string
+  /** Human readable name shown in the export select */
+  label: string
+  extension: string
+  mimeType: string
+  /** Whether the format honours TrajectoryExportOptions.altitudeMode */
+  usesAltitudeMode?: boolean
+  /** Whether the format honours TrajectoryExportOptions.missionFrame */
+  usesMissionFrame?: boolean
+  serialize: (data: TrajectoryData, options: TrajectoryExportOptions) => string | Uint8Array
+}
+
+interface TrajectoryImportFormat {
+  /** Lower-case file extensions, including the dot */
+  extensions: string[]
+  parse: (file: File) => Promise<ImportedTrajectory>
+}
+
+interface TrackLogFormat {
+  /** Shown with the track, e.g. "NMEA" */
+  label: string
+  /** Lower-case file extensions, including the dot */
+  extensions: string[]
+  parse: (text: string) => TrackLogImport
+}
+
+interface ImportedTrajectory {
+  points: RoutePoint[]
+  /** Short description of what was imported, shown to the user */
+  summary: string
+  /** Caveat about the imported altitudes, shown with the summary */
+  warning?: string
+}
+
+const DEFAULT_EXPORT_OPTIONS: TrajectoryExportOptions = {
+  altitudeMode: 'absolute',
+  profile: null,
+  missionFrame: 'relative',
+  terrainElevations: null
+}
+
+const EXPORT_FORMATS: TrajectoryExportFormat[] = [
+  {
+    id: 'json',
+    label: 'Trajectory JSON',
+    extension: 'json',
+    mimeType: 'application/json',
+    serialize: (data) => exportTrajectoryJson(data)
+  },
+  {
+    id: 'gpx-route',
+    label: 'GPX route',
+    extension: 'gpx',
+    mimeType: 'application/gpx+xml',
+    serialize: (data) => exportGpx(data, 'route')
+  },
+  {
+    id: 'gpx-track',
+    label: 'GPX track',
+    extension: 'gpx',
+    mimeType: 'application/gpx+xml',
+    serialize: (data) => exportGpx(data, 'track')
+  },
+  {
+    id: 'kml',
+    label: 'KML (Google Earth)',
+    extension: 'kml',
+    mimeType: 'application/vnd.google-earth.kml+xml',
+    usesAltitudeMode: true,
+    serialize: (data, options) => exportKml(data, options.altitudeMode, options.terrainElevations)
+  },
+  {
+    id: 'kmz',
+    label: 'KMZ (Google Earth)',
+    extension: 'kmz',
+    mimeType: 'application/vnd.google-earth.kmz',
+    usesAltitudeMode: true,
+    serialize: (data, options) => exportKmz(data, options.altitudeMode, options.terrainElevations)
+  },
+  {
+    id: 'geojson',
+    label: 'GeoJSON',
+    extension: 'geojson',
+    mimeType: 'application/geo+json',
+    serialize: (data, options) => exportGeoJson(data, options.profile)
+  },
+  {
+    id: 'csv',
+    label: 'CSV',
+    extension: 'csv',
+    mimeType: 'text/csv',
+    serialize: (data) => exportCsv(data)
+  },
+  {
+    id: 'qgc-plan',
+    label: 'QGroundControl mission',
+    extension: 'plan',
+    mimeType: 'application/json',
+    usesMissionFrame: true,
+    serialize: (data, options) => exportQgcPlan(data, {
+      frame: options.missionFrame,
+      terrainElevations: options.terrainElevations
+    })
+  },
+  {
+    id: 'wpl',
+    label: 'MAVLink waypoints (QGC WPL 110)',
+    extension: 'waypoints',
+    mimeType: 'text/plain',
+    usesMissionFrame: true,
+    serialize: (data, options) => exportWpl(data, {
+      frame: options.missionFrame,
+      terrainElevations: options.terrainElevations
+    })
+  }
+]
+
+function summarize(count: number, source: string, name: string | null): string {
+  return `${count} points from ${source}${name ? ` (${name})` : ''}`
+}
+
+function summarizeKml({ points, name, source, relativeToGround }: KmlImport): ImportedTrajectory {
+  return {
+    points,
+    summary: summarize(points.length, source, name),
+    warning: relativeToGround
+      ? 'The file gives heights above ground; they were imported as altitudes above sea level'
+      : undefined
+  }
+}
+
+const IMPORT_FORMATS: TrajectoryImportFormat[] = [
+  {
+    extensions: ['.json'],
+    parse: async (file) => {
+      const text = await file.text()
+      let json: unknown
+      try {
+        json = JSON.parse(text)
+      } catch {
+        throw new Error('Invalid trajectory file: not a JSON document')
+      }
+      // GIS tools often save GeoJSON with a plain .json extension
+      if (typeof json === 'object' && json !== null && !('points' in json) && 'type' in json) {
+        const { points, name, source } = parseGeoJson(text)
+        return { points, summary: summarize(points.length, source, name) }
+      }
+      const { data, fromVersion } = parseTrajectoryJson(json)
+      const upgraded = fromVersion < data.version ? ` (upgraded from format version ${fromVersion})` : ''
+      return { points: data.points, summary: `${data.points.length} waypoints${upgraded}` }
+    }
+  },
+  {
+    extensions: ['.gpx'],
+    parse: async (file) => {
+      const { points, name, source } = parseGpx(await file.text())
+      return { points, summary: summarize(points.length, source, name) }
+    }
+  },
+  {
+    extensions: ['.kml'],
+    parse: async (file) => summarizeKml(parseKml(await file.text()))
+  },
+  {
+    extensions: ['.geojson'],
+    parse: async (file) => {
+      const { points, name, source } = parseGeoJson(await file.text())
+      return { points, summary: summarize(points.length, source, name) }
+    }
+  },
+  {
+    extensions: ['.kmz'],
+    parse: async (file) => summarizeKml(await parseKmz(await file.arrayBuffer()))
+  }
+]
+
+// Recorded logs loaded as read-only tracks rather than route points
+const TRACK_LOG_FORMATS: TrackLogFormat[] = [
+  { label: 'NMEA', extensions: ['.nmea', '.nma', '.log', '.txt'], parse: parseNmea },
+  { label: 'IGC', extensions: ['.igc'], parse: parseIgc },
+  { label: 'TCX', extensions: ['.tcx'], parse: parseTcx }
+]
+
+// Value for the recorded track file input's accept attribute
+const TRACK_LOG_ACCEPT = TRACK_LOG_FORMATS.flatMap(format => format.extensions).join(',')
+
+// CSV files need a column mapping from the user and are imported through CsvImportDialog
+const CSV_EXTENSIONS = ['.csv', '.tsv']
+
+// Value for the import file input's accept attribute
+const IMPORT_ACCEPT = [...IMPORT_FORMATS.flatMap(format => format.extensions), ...CSV_EXTENSIONS].join(',')
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.')
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : ''
+}
+
+function isCsvFile(file: File): boolean {
+  return CSV_EXTENSIONS.includes(getExtension(file.name))
+}
+
+/**
+ * Offer content to the user as a file download
+ */
+function downloadFile(content: BlobPart, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Serialize a trajectory and download it as a file
+ */
+function downloadTrajectory(
+  data: TrajectoryData,
+  formatId: string,
+  options: Partial<TrajectoryExportOptions> = {}
+) {
+  const format = EXPORT_FORMATS.find(f => f.id === formatId) ?? EXPORT_FORMATS[0]
+  downloadFile(
+    format.serialize(data, { ...DEFAULT_EXPORT_OPTIONS, ...options }),
+    `trajectory_${Date.now()}.${format.extension}`,
+    format.mimeType
+  )
+}
+
+/**
+ * Read route points from any supported file, chosen by extension
+ */
+async function importTrajectoryFile(file: File): Promise<ImportedTrajectory> {
+  const extension = getExtension(file.name)
+  const format = IMPORT_FORMATS.find(f => f.extensions.includes(extension))
+  if (!format) {
+    throw new Error(`Unsupported file type ${extension || file.name}`)
+  }
+  return format.parse(file)
+}
+
+/**
+ * Read a recorded GPS or flight log, chosen by extension, as a visible track
+ */
+async function importRecordedTrack(file: File): Promise<RecordedTrack> {
+  const extension = getExtension(file.name)
+  const format = TRACK_LOG_FORMATS.find(f => f.extensions.includes(extension))
+  if (!format) {
+    throw new Error(`Unsupported log type ${extension || file.name}`)
+  }
+
+  const { name, points } = format.parse(await file.text())
+  return {
+    id: `track_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: name ?? file.name,
+    format: format.label,
+    points,
+    visible: true
+  }
+}
+
+export {
+  EXPORT_FORMATS,
+  IMPORT_ACCEPT,
+  KML_ALTITUDE_MODES,
+  MISSION_ALTITUDE_FRAMES,
+  MISSION_COMMANDS,
+  TRACK_LOG_ACCEPT,
+  TRAJECTORY_FORMAT_VERSION,
+  downloadFile,
+  downloadTrajectory,
+  importRecordedTrack,
+  importTrajectoryFile,
+  isCsvFile
+}
+export type {
+  ImportedTrajectory,
+  KmlAltitudeMode,
+  MissionAltitudeFrame,
+  TrajectoryExportFormat,
+  TrajectoryExportOptions
+}
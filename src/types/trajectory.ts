@@ -0,0 +1,56 @@
+// Route and trajectory types shared by the planner, the plotter and file exports
+
+import type { ElevationProvenance } from '../services/altitudeService'
+
+/** What a drone does at a waypoint when the route is exported as a mission */
+type MissionCommand = 'takeoff' | 'waypoint' | 'loiter' | 'land' | 'rtl'
+
+interface RoutePoint {
+  id: string
+  lat: number
+  lng: number
+  altitude: number
+  /** Where the altitude came from; absent for default and manually entered values */
+  altitudeSource?: ElevationProvenance
+  timestamp: number
+  /** Keep the timestamp when times are recomputed from the timing model */
+  timePinned?: boolean
+  name: string
+  /** Ground speed in m/s on the leg to the next waypoint, instead of the route's */
+  legSpeed?: number
+  /** Mission command for drone exports; a plain waypoint when absent */
+  missionCommand?: MissionCommand
+  /** Seconds spent at the waypoint before continuing (loiter time for loiter commands) */
+  holdTime?: number
+}
+
+interface TrajectoryData {
+  /** File format version, see TRAJECTORY_FORMAT_VERSION */
+  version: number
+  points: RoutePoint[]
+  totalDistance: number
+  totalTime: number
+  createdAt: string
+}
+
+/** A fix from a recorded GPS or flight log */
+interface TrackPoint {
+  lat: number
+  lng: number
+  /** Meters above sea level, null when the log has no altitude */
+  altitude: number | null
+  /** Epoch milliseconds, null when the log has no time */
+  time: number | null
+}
+
+/** A recorded log shown read-only next to the planned route */
+interface RecordedTrack {
+  id: string
+  name: string
+  /** Log format the track was read from, e.g. "NMEA" */
+  format: string
+  points: TrackPoint[]
+  visible: boolean
+}
+
+export type { MissionCommand, RecordedTrack, RoutePoint, TrackPoint, TrajectoryData }
@@ -0,0 +1,80 @@
+// Altitude profile worker
+// Runs the AltitudeService profile pipeline (interpolation, provider requests, local DEM
+// sampling and statistics) off the main thread. Local DEMs and the elevation cache are
+// read from the same IndexedDB databases as the page; provider health is exchanged with
+// the page in both directions.
+
+import { altitudeService } from '../services/altitudeService'
+import type { AltitudeProfile } from '../services/altitudeService'
+import { elevationProviders } from '../services/elevationProviders'
+import type { LatLngPoint } from '../services/elevationProviders'
+import { geotiffRasters } from '../services/geotiffRasters'
+import { providerHealth } from '../services/providerHealth'
+import type { ProviderHealth } from '../services/providerHealth'
+import { srtmTiles } from '../services/srtmTiles'
+
+type ProfileWorkerRequest =
+  | { type: 'profile', id: number, waypoints: LatLngPoint[], preferredSource: string, providerIds: string[], health: ProviderHealth[] }
+  | { type: 'cancel', id: number }
+
+// `unsupported` errors mean a provider only exists on the page (e.g. an endpoint
+// registered at runtime) and the job should run there instead
+type ProfileWorkerResponse =
+  | { type: 'progress', id: number, done: number, total: number }
+  | { type: 'result', id: number, profile: AltitudeProfile }
+  | { type: 'error', id: number, message: string, unsupported?: boolean }
+  | { type: 'health', health: ProviderHealth[] }
+
+const jobs = new Map<number, AbortController>()
+
+function respond(response: ProfileWorkerResponse) {
+  self.postMessage(response)
+}
+
+async function runProfile(id: number, waypoints: LatLngPoint[], preferredSource: string, providerIds: string[]) {
+  const controller = new AbortController()
+  jobs.set(id, controller)
+
+  try {
+    // Pick up DEM files imported or removed on the page since the last job
+    await Promise.all([srtmTiles.sync(), geotiffRasters.sync()])
+
+    // The worker only has the built-in providers and the DEM files, so a profile made
+    // here would silently skip any other provider the page would use
+    const required = preferredSource === 'auto' || preferredSource === 'regional'
+      ? providerIds
+      : [...providerIds, preferredSource]
+    const missing = required.filter(providerId => !elevationProviders.get(providerId))
+    if (missing.length > 0) {
+      respond({ type: 'error', id, message: `Providers ${missing.join(', ')} are not available in the worker`, unsupported: true })
+      return
+    }
+
+    const profile = await altitudeService.getDetailedAltitudeProfile(waypoints, preferredSource, {
+      signal: controller.signal,
+      onProgress: (done, total) => respond({ type: 'progress', id, done, total })
+    })
+    respond({ type: 'result', id, profile })
+  } catch (error) {
+    // Cancelled jobs have already been settled on the page
+    if (controller.signal.aborted) return
+    respond({ type: 'error', id, message: error instanceof Error ? error.message : String(error) })
+  } finally {
+    jobs.delete(id)
+  }
+}
+
+// Report every request outcome back to the page
+providerHealth.subscribe(() => respond({ type: 'health', health: providerHealth.list() }))
+
+self.addEventListener('message', (event: MessageEvent<ProfileWorkerRequest>) => {
+  const request = event.data
+  if (request.type === 'profile') {
+    providerHealth.merge(request.health)
+    runProfile(request.id, request.waypoints, request.preferredSource, request.providerIds)
+  } else if (request.type === 'cancel') {
+    jobs.get(request.id)?.abort()
+  }
+})
+
+export type { ProfileWorkerRequest, ProfileWorkerResponse }
@@ -9,6 +9,10 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  worker: {
+    // The profile worker pulls in code-split GeoTIFF decoders
+    format: 'es',
+  },
   server: {
     port: 3000,
     strictPort: true,